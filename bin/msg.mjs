@@ -7,6 +7,12 @@ import {
   CloudFormationClient,
   DescribeStacksCommand,
 } from "@aws-sdk/client-cloudformation";
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+import {
+  SQSClient,
+  PurgeQueueCommand,
+  ReceiveMessageCommand,
+} from "@aws-sdk/client-sqs";
 import {
   CognitoIdentityProviderClient,
   AdminCreateUserCommand,
@@ -16,6 +22,7 @@ import {
 import * as https from "https";
 import * as fs from "fs";
 import * as crypto from "crypto";
+import * as zlib from "zlib";
 import { WebSocket } from "ws";
 
 const OUTPUT_MAP = [
@@ -23,6 +30,8 @@ const OUTPUT_MAP = [
   "AuthenticationUserPoolClientId",
   "AuthenticationTokenApiUrl",
   "GatewayWebsocketUrl",
+  "GatewayDeadLetterQueueUrl",
+  "GatewayRedriveDeadLettersFunctionName",
   "SampleAppApiUrl",
 ];
 
@@ -247,6 +256,10 @@ program
       .env("ID_TOKEN")
       .makeOptionMandatory(),
   )
+  .option(
+    "-c, --compression <encodings>",
+    "the comma-separated compressions to receive the messages with (gzip, deflate)",
+  )
   .action(async (options) => {
     console.warn("Getting temporary token...");
     const response = await new Promise((resolve, reject) => {
@@ -284,14 +297,58 @@ program
     });
 
     console.warn("Connecting to messages websocket...");
+    const compression = options.compression
+      ? `&compression=${encodeURIComponent(options.compression)}`
+      : "";
     const ws = new WebSocket(
-      `${OUTPUTS.GatewayWebsocketUrl}?token=${response.token}`,
+      `${OUTPUTS.GatewayWebsocketUrl}?token=${response.token}${compression}`,
     );
     ws.on("open", () => {
       console.warn("Connected to messages websocket...");
     });
+    // The chunk frames of the large messages by message ID
+    const chunks = new Map();
     ws.on("message", (data) => {
-      console.warn(`< ${data}`);
+      let frame;
+      try {
+        frame = JSON.parse(data);
+      } catch (err) {
+        // A frame that is not JSON is printed as it is
+        console.warn(`< ${data}`);
+        return;
+      }
+      const { messageId } = frame;
+
+      if (frame.chunks !== undefined) {
+        const received = chunks.get(messageId) ?? [];
+        received[frame.chunk] = frame.payload;
+        chunks.set(messageId, received);
+        if (
+          received.filter((chunk) => chunk !== undefined).length < frame.chunks
+        ) {
+          return;
+        }
+        chunks.delete(messageId);
+        delete frame.chunk;
+        delete frame.chunks;
+        frame.payload = JSON.parse(received.join(""));
+      }
+
+      if (frame.encoding !== undefined) {
+        const compressed = Buffer.from(frame.payload, "base64");
+        frame.payload = JSON.parse(
+          frame.encoding === "gzip"
+            ? zlib.gunzipSync(compressed)
+            : zlib.inflateSync(compressed),
+        );
+        delete frame.encoding;
+      }
+
+      console.warn(`< ${JSON.stringify(frame)}`);
+      // Only the stored messages have a sequence number to acknowledge, not the broadcasts or the responses
+      if (messageId !== undefined && frame.sequence !== undefined) {
+        ws.send(JSON.stringify({ action: "ack", messageId }));
+      }
     });
     ws.on("error", (err) => {
       console.error(`Error: ${err.message}`);
@@ -377,4 +434,113 @@ program
     console.warn(`Message sent with statusCode ${response.statusCode}.`);
   });
 
+const dlq = program
+  .command("dlq")
+  .description("Inspect and replay the dead-lettered messages.");
+
+dlq
+  .command("list")
+  .description(
+    "List the dead-lettered messages, hiding them from other consumers for the visibility timeout.",
+  )
+  .copyInheritedSettings(program)
+  .addOption(
+    new Option("-n, --max <count>", "the maximum number of messages to list")
+      .default(100)
+      .argParser(parseInt),
+  )
+  .addOption(
+    new Option(
+      "-v, --visibility <seconds>",
+      "the time to hide the listed messages",
+    )
+      .default(30)
+      .argParser(parseInt),
+  )
+  .action(async (options) => {
+    const client = new SQSClient({ region: program.opts().region });
+
+    let count = 0;
+    while (count < options.max) {
+      const response = await client.send(
+        new ReceiveMessageCommand({
+          QueueUrl: OUTPUTS.GatewayDeadLetterQueueUrl,
+          MaxNumberOfMessages: Math.min(10, options.max - count),
+          VisibilityTimeout: options.visibility,
+          MessageSystemAttributeNames: ["SentTimestamp"],
+        }),
+      );
+
+      if (!response.Messages?.length) {
+        break;
+      }
+
+      for (const message of response.Messages) {
+        console.info(
+          JSON.stringify({
+            sentAt: new Date(
+              parseInt(message.Attributes.SentTimestamp),
+            ).toISOString(),
+            body: JSON.parse(message.Body),
+          }),
+        );
+      }
+      count += response.Messages.length;
+    }
+
+    console.warn(`${count} dead-lettered messages listed.`);
+  });
+
+dlq
+  .command("redrive")
+  .description(
+    "Move the dead-lettered messages to the Messages table to send them when the user connects.",
+  )
+  .copyInheritedSettings(program)
+  .addOption(
+    new Option("-n, --max <count>", "the maximum number of messages to move")
+      .default(100)
+      .argParser(parseInt),
+  )
+  .action(async (options) => {
+    const client = new LambdaClient({ region: program.opts().region });
+
+    console.warn("Redriving dead-lettered messages...");
+    const response = await client.send(
+      new InvokeCommand({
+        FunctionName: OUTPUTS.GatewayRedriveDeadLettersFunctionName,
+        Payload: JSON.stringify({ maxMessages: options.max }),
+      }),
+    );
+
+    const payload = Buffer.from(response.Payload).toString();
+    if (response.FunctionError) {
+      console.error(`Error: ${payload}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const { redriven, discarded, failed } = JSON.parse(payload);
+    console.warn(
+      `${redriven} messages redriven, ${discarded} expired messages discarded, ${failed} failed.`,
+    );
+  });
+
+dlq
+  .command("purge")
+  .description("Delete all the dead-lettered messages.")
+  .copyInheritedSettings(program)
+  .action(async () => {
+    const client = new SQSClient({ region: program.opts().region });
+
+    console.warn("Purging dead-lettered messages...");
+    await client.send(
+      new PurgeQueueCommand({
+        QueueUrl: OUTPUTS.GatewayDeadLetterQueueUrl,
+      }),
+    );
+
+    console.warn("Dead-letter queue purged.");
+  });
+
 program.parse();
@@ -0,0 +1,8 @@
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  testMatch: ["**/*.test.ts", "**/*.test.mjs"],
+  transform: {
+    "^.+\\.tsx?$": "ts-jest",
+  },
+};
@@ -0,0 +1,102 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  DynamoDBClient,
+  DeleteItemCommand,
+  paginateQuery,
+} from "@aws-sdk/client-dynamodb";
+import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
+
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
+const PAYLOADS_BUCKET = process.env.PAYLOADS_BUCKET;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const s3 = new S3Client();
+
+/**
+ * Parses the acknowledgement sent by the client.
+ *
+ * @param {string} body the websocket frame sent by the client.
+ * @returns {string | undefined} the acknowledged message ID or undefined if the frame is invalid.
+ */
+function parseMessageId(body) {
+  try {
+    const messageId = JSON.parse(body).messageId;
+    return typeof messageId === "string" ? messageId : undefined;
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * The handler function for the websocket ack route to remove the delivered message from the messages table, and
+ * its payload from the payloads bucket if it is a large message.
+ *
+ * The client sends `{"action": "ack", "messageId": "<message ID>"}` for each received message.
+ *
+ * @param {any} event the event object.
+ * @returns {any} the response object.
+ */
+export async function handler(event) {
+  const userId = event.requestContext.authorizer.principalId;
+  logger.appendKeys({ userId });
+
+  const messageId = parseMessageId(event.body);
+  if (messageId === undefined) {
+    logger.error("Invalid acknowledgement", {
+      connectionId: event.requestContext.connectionId,
+    });
+    return { statusCode: 400 };
+  }
+
+  logger.appendKeys({ messageId });
+
+  const paginatorConfig = {
+    client: dynamoDB,
+    pageSize: 100,
+  };
+
+  // The user's messages are few, so filtering them is cheaper than an index.
+  const command = {
+    TableName: MESSAGES_TABLE,
+    KeyConditionExpression: "#userId = :userId",
+    FilterExpression: "messageId = :messageId",
+    ExpressionAttributeNames: {
+      "#userId": "userId",
+    },
+    ExpressionAttributeValues: {
+      ":userId": { S: userId },
+      ":messageId": { S: messageId },
+    },
+    ProjectionExpression: "#userId,messageKey,payloadKey",
+  };
+
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    for (const item of page.Items) {
+      logger.info("Removing acknowledged message");
+      await dynamoDB.send(
+        new DeleteItemCommand({
+          TableName: MESSAGES_TABLE,
+          Key: {
+            userId: item.userId,
+            messageKey: item.messageKey,
+          },
+        }),
+      );
+
+      if (item.payloadKey !== undefined) {
+        await s3.send(
+          new DeleteObjectCommand({
+            Bucket: PAYLOADS_BUCKET,
+            Key: item.payloadKey.S,
+          }),
+        );
+      }
+    }
+  }
+
+  return { statusCode: 200 };
+}
@@ -0,0 +1,157 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import { DynamoDBClient, paginateScan } from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { messageSize } from "./shared/messages.mjs";
+
+const CONNECTIONS_TABLE = process.env.CONNECTIONS_TABLE;
+const WEBSOCKET_ENDPOINT = process.env.WEBSOCKET_ENDPOINT;
+const BROADCAST_RATE = parseInt(process.env.BROADCAST_RATE);
+const MAX_MESSAGE_SIZE = parseInt(process.env.MAX_MESSAGE_SIZE);
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.EVENT_SOURCE;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const eventBridge = new EventBridgeClient();
+const websocket = new ApiGatewayManagementApiClient({
+  endpoint: WEBSOCKET_ENDPOINT,
+});
+
+/**
+ * Sleep for wait milliseconds.
+ *
+ * @param {number} wait time to wait in milliseconds.
+ * @returns {Promise<void>}
+ */
+async function sleep(wait) {
+  return new Promise((resolve) => setTimeout(resolve, wait));
+}
+
+/**
+ * Sends the message to all the connections, reading them in pages of BROADCAST_RATE items where each page is sent in
+ * at least one second to stay under the API Gateway management API limits.
+ *
+ * The connections expired but not removed yet by the TTL are skipped, and the ones closed without the $disconnect
+ * route are counted as `gone` instead of `failed`.
+ *
+ * @param {string} data the websocket frame of the message.
+ * @param {any} counts the number of connections `reached`, `gone`, and `failed`, updated as the message is sent.
+ */
+async function sendToConnections(data, counts) {
+  const paginatorConfig = {
+    client: dynamoDB,
+    pageSize: BROADCAST_RATE,
+  };
+
+  const command = {
+    TableName: CONNECTIONS_TABLE,
+    ProjectionExpression: "connectionId",
+    FilterExpression: "#ttl > :now",
+    ExpressionAttributeNames: { "#ttl": "ttl" },
+    ExpressionAttributeValues: {
+      ":now": { N: `${Math.floor(Date.now() / 1000)}` },
+    },
+  };
+
+  let windowStart = 0;
+
+  for await (const page of paginateScan(paginatorConfig, command)) {
+    const wait = windowStart + 1000 - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    windowStart = Date.now();
+
+    const results = await Promise.allSettled(
+      page.Items.map((item) =>
+        websocket.send(
+          new PostToConnectionCommand({
+            ConnectionId: item.connectionId.S,
+            Data: data,
+          }),
+        ),
+      ),
+    );
+
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        counts.reached++;
+      } else if (result.reason.name === "GoneException") {
+        counts.gone++;
+      } else {
+        counts.failed++;
+        logger.warn("Failed to send the message", {
+          error: result.reason.message,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * The handler function to send a message to all the connected clients, invoked asynchronously by the API.
+ *
+ * The number of connections `reached`, `gone`, and `failed` is sent with the BroadcastCompleted event, or with the
+ * BroadcastFailed event and the `error` if the connections could not be read. The API invokes the function
+ * synchronously for a message larger than MAX_MESSAGE_SIZE, so the rejection is answered with the 413 status code.
+ *
+ * @param {any} event the message with the messageId, timestamp, message, and contentType.
+ * @throws {Error} if the message is too large.
+ */
+export async function handler(event) {
+  const { messageId, timestamp, message, contentType } = event;
+  logger.appendKeys({ messageId });
+
+  if (messageSize(message) > MAX_MESSAGE_SIZE) {
+    logger.warn("Rejecting the message, it is too large");
+    throw new Error("The message is too large");
+  }
+
+  const data = JSON.stringify({
+    messageId,
+    timestamp,
+    broadcast: true,
+    contentType,
+    payload: message,
+  });
+
+  const counts = { reached: 0, gone: 0, failed: 0 };
+  let error;
+  try {
+    await sendToConnections(data, counts);
+    logger.info("Message broadcasted", counts);
+  } catch (err) {
+    logger.error("Failed to broadcast the message", { error: err.message });
+    error = err.message;
+  }
+
+  await eventBridge.send(
+    new PutEventsCommand({
+      Entries: [
+        {
+          EventBusName: EVENT_BUS_NAME,
+          Source: EVENT_SOURCE,
+          DetailType:
+            error === undefined ? "BroadcastCompleted" : "BroadcastFailed",
+          Detail: JSON.stringify({
+            messageId,
+            createdAt: timestamp,
+            completedAt: Date.now(),
+            ...counts,
+            error,
+          }),
+        },
+      ],
+    }),
+  );
+}
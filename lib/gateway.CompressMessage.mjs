@@ -0,0 +1,52 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import { gzipSync, deflateSync } from "zlib";
+import { decompressMessage } from "./shared/messages.mjs";
+
+const COMPRESSION = process.env.COMPRESSION;
+
+const logger = new Logger();
+
+/**
+ * The handler function to compress a message before it is stored, or to decompress a stored message sent again.
+ *
+ * The message has the payload as the JSON value (`message`) and as the base64 of the JSON compressed with COMPRESSION
+ * (`compressedMessage` and `encoding`), so it can be sent to the clients that support the compression and to those
+ * that don't. A message that doesn't get smaller is not compressed.
+ *
+ * @param {any} event the message body.
+ * @returns {any} the message body with both payloads.
+ */
+export async function handler(event) {
+  const { body } = event;
+  logger.appendKeys({ userId: body.userId, messageId: body.messageId });
+
+  if (body.compressedMessage !== undefined) {
+    const compressed = Buffer.from(body.compressedMessage, "base64");
+
+    logger.info("Decompressed the message", { encoding: body.encoding });
+    return { ...body, message: decompressMessage(compressed, body.encoding) };
+  }
+
+  const payload = Buffer.from(JSON.stringify(body.message));
+  const compressed =
+    COMPRESSION === "gzip" ? gzipSync(payload) : deflateSync(payload);
+
+  if (compressed.length >= payload.length) {
+    logger.info("The message is not compressed, it doesn't get smaller");
+    return body;
+  }
+
+  logger.info("Compressed the message", {
+    encoding: COMPRESSION,
+    size: payload.length,
+    compressedSize: compressed.length,
+  });
+  return {
+    ...body,
+    compressedMessage: compressed.toString("base64"),
+    encoding: COMPRESSION,
+  };
+}
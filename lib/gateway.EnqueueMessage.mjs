@@ -0,0 +1,288 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  CloudWatchClient,
+  PutMetricDataCommand,
+} from "@aws-sdk/client-cloudwatch";
+import { DynamoDBClient, paginateQuery } from "@aws-sdk/client-dynamodb";
+import {
+  SQSClient,
+  SendMessageCommand,
+  SendMessageBatchCommand,
+} from "@aws-sdk/client-sqs";
+import { encryptMessage } from "./shared/crypto.mjs";
+import { messageSize } from "./shared/messages.mjs";
+import { getHeader } from "./shared/requests.mjs";
+
+const MESSAGES_QUEUE_URL = process.env.MESSAGES_QUEUE_URL;
+const HIGH_PRIORITY_QUEUE_URL = process.env.HIGH_PRIORITY_QUEUE_URL;
+const MESSAGE_TTL_SECONDS = parseInt(process.env.MESSAGE_TTL_SECONDS);
+const ENCRYPTION_KEY_ARN = process.env.ENCRYPTION_KEY_ARN;
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
+const MAX_BACKLOG_MESSAGES = parseInt(process.env.MAX_BACKLOG_MESSAGES);
+const MAX_BACKLOG_BYTES = parseInt(process.env.MAX_BACKLOG_BYTES);
+const BACKLOG_POLICY = process.env.BACKLOG_POLICY;
+const METRICS_NAMESPACE = process.env.METRICS_NAMESPACE;
+const MAX_MESSAGE_SIZE = parseInt(process.env.MAX_MESSAGE_SIZE);
+
+const logger = new Logger();
+const cloudwatch = new CloudWatchClient();
+const dynamoDB = new DynamoDBClient();
+const sqs = new SQSClient();
+
+/**
+ * Creates the queued message with the gateway properties and the message, encrypted if ENCRYPTION_KEY_ARN is set.
+ *
+ * @param {any} payload the payload of a message sent by the producer.
+ * @param {string} messageId the message ID.
+ * @param {number} timestamp the time when the gateway received the message.
+ * @returns {Promise<any>} the body of the queued message.
+ */
+async function queuedMessage(payload, messageId, timestamp) {
+  const { message, ttlSeconds, expiresAt, ...body } = payload;
+
+  const content = ENCRYPTION_KEY_ARN
+    ? {
+        encryptedMessage: await encryptMessage(
+          message,
+          messageId,
+          ENCRYPTION_KEY_ARN,
+        ),
+      }
+    : { message };
+
+  return {
+    ...body,
+    timestamp,
+    messageId,
+    expiresAt:
+      expiresAt ??
+      Math.floor(timestamp / 1000) + (ttlSeconds ?? MESSAGE_TTL_SECONDS),
+    ...content,
+  };
+}
+
+/**
+ * Gets the number and the size of the stored messages of the user that didn't expire.
+ *
+ * @param {string} userId the user ID.
+ * @returns {Promise<any>} the `count` and the `bytes` of the messages.
+ */
+async function getBacklog(userId) {
+  const paginatorConfig = {
+    client: dynamoDB,
+  };
+
+  const command = {
+    TableName: MESSAGES_TABLE,
+    KeyConditionExpression: "userId = :userId",
+    FilterExpression: "expiresAt > :now",
+    ExpressionAttributeValues: {
+      ":userId": { S: userId },
+      ":now": { N: `${Math.floor(Date.now() / 1000)}` },
+    },
+    ProjectionExpression: "messageSize",
+  };
+
+  const backlog = { count: 0, bytes: 0 };
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    for (const item of page.Items) {
+      backlog.count++;
+      backlog.bytes += parseInt(item.messageSize?.N ?? "0");
+    }
+  }
+
+  return backlog;
+}
+
+/**
+ * Checks if the backlog of the user is full when the backlog policy is to reject the messages.
+ *
+ * The size of a message is the length of its JSON, as the gateway records it. The backlogs are kept with the accepted
+ * messages, so the messages of a batch are counted too.
+ *
+ * @param {any} payload the payload of a message sent by the producer.
+ * @param {Map<string, any>} backlogs the backlogs of the users of the request.
+ * @returns {Promise<boolean>} true if the message is rejected.
+ */
+async function isBacklogFull(payload, backlogs) {
+  if (BACKLOG_POLICY !== "reject") {
+    return false;
+  }
+
+  if (!backlogs.has(payload.userId)) {
+    backlogs.set(payload.userId, await getBacklog(payload.userId));
+  }
+  const backlog = backlogs.get(payload.userId);
+  const size = messageSize(payload.message);
+
+  if (
+    (MAX_BACKLOG_MESSAGES > 0 && backlog.count >= MAX_BACKLOG_MESSAGES) ||
+    (MAX_BACKLOG_BYTES > 0 && backlog.bytes + size > MAX_BACKLOG_BYTES)
+  ) {
+    return true;
+  }
+
+  backlog.count++;
+  backlog.bytes += size;
+  return false;
+}
+
+/**
+ * Sends the metric of the rejected messages because the backlog of the user is full.
+ *
+ * @param {number} count the number of rejected messages.
+ */
+async function putBacklogCappedMetric(count) {
+  await cloudwatch.send(
+    new PutMetricDataCommand({
+      Namespace: METRICS_NAMESPACE,
+      MetricData: [
+        {
+          MetricName: "BacklogCapped",
+          Dimensions: [{ Name: "Policy", Value: BACKLOG_POLICY }],
+          Value: count,
+          Unit: "Count",
+        },
+      ],
+    }),
+  );
+}
+
+/**
+ * The handler function to enqueue the messages sent to POST /message and POST /messages, instead of the SQS
+ * integration, when they are encrypted or rejected if the backlog of the user is full.
+ *
+ * The encrypted messages are encrypted before they are enqueued, so the gateway only has the plaintext of a message to
+ * send it to the client.
+ *
+ * The responses are the same as the ones of the messages sent to the queue by the SQS integration. A rejected message
+ * has the status code 429, or the `BacklogFull` code in the failed entries of a batch, and a request with a message
+ * larger than MAX_MESSAGE_SIZE has the status code 413.
+ *
+ * @param {any} event the API Gateway proxy event with the payload of the message, or the `messages` and `priority`.
+ * @returns {any} the response with the message ID, or the successful and failed entries of the messages.
+ */
+export async function handler(event) {
+  const { requestId, extendedRequestId, requestTimeEpoch } =
+    event.requestContext;
+  const payload = JSON.parse(event.body);
+  const backlogs = new Map();
+
+  // The whole batch is rejected when any message is too large, as when the API enqueues it
+  const messages = event.resource === "/message" ? [payload] : payload.messages;
+  if (messages.some(({ message }) => messageSize(message) > MAX_MESSAGE_SIZE)) {
+    logger.warn("Rejecting the request, a message is too large");
+    return {
+      statusCode: 413,
+      body: JSON.stringify({ message: "The message is too large" }),
+    };
+  }
+
+  if (event.resource === "/message") {
+    logger.appendKeys({ userId: payload.userId, messageId: requestId });
+
+    if (await isBacklogFull(payload, backlogs)) {
+      logger.warn("Rejecting the message, the backlog of the user is full");
+      await putBacklogCappedMetric(1);
+      return {
+        statusCode: 429,
+        body: JSON.stringify({ message: "The backlog of the user is full" }),
+      };
+    }
+
+    const idempotencyKey =
+      getHeader(event, "Idempotency-Key") ?? payload.idempotencyKey;
+    const body = await queuedMessage(
+      { ...payload, idempotencyKey },
+      requestId,
+      requestTimeEpoch,
+    );
+
+    logger.info("Sending the message to the queue");
+    await sqs.send(
+      new SendMessageCommand({
+        QueueUrl:
+          body.priority === "high"
+            ? HIGH_PRIORITY_QUEUE_URL
+            : MESSAGES_QUEUE_URL,
+        MessageBody: JSON.stringify(body),
+        MessageDeduplicationId: idempotencyKey ?? extendedRequestId,
+        MessageGroupId: body.userId,
+      }),
+    );
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ messageId: requestId }),
+    };
+  }
+
+  // The messages of a batch are sent to the queue of the priority of the batch.
+  const { priority } = payload;
+  const entries = [];
+  const rejected = [];
+  for (const [index, message] of payload.messages.entries()) {
+    if (await isBacklogFull(message, backlogs)) {
+      rejected.push({ index, code: "BacklogFull", senderFault: true });
+      continue;
+    }
+
+    entries.push({
+      Id: `${index}`,
+      MessageBody: JSON.stringify(
+        await queuedMessage(
+          { ...message, priority },
+          `${requestId}-${index}`,
+          requestTimeEpoch,
+        ),
+      ),
+      MessageDeduplicationId:
+        message.idempotencyKey ?? `${extendedRequestId}-${index}`,
+      MessageGroupId: message.userId,
+    });
+  }
+
+  if (rejected.length > 0) {
+    logger.warn("Rejecting the messages, the backlog of the users is full", {
+      count: rejected.length,
+    });
+    await putBacklogCappedMetric(rejected.length);
+  }
+
+  logger.info("Sending the messages to the queue", {
+    count: entries.length,
+  });
+  const response =
+    entries.length > 0
+      ? await sqs.send(
+          new SendMessageBatchCommand({
+            QueueUrl:
+              priority === "high"
+                ? HIGH_PRIORITY_QUEUE_URL
+                : MESSAGES_QUEUE_URL,
+            Entries: entries,
+          }),
+        )
+      : {};
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      successful: (response.Successful ?? []).map((entry) => ({
+        index: parseInt(entry.Id),
+        messageId: `${requestId}-${entry.Id}`,
+      })),
+      failed: [
+        ...rejected,
+        ...(response.Failed ?? []).map((entry) => ({
+          index: parseInt(entry.Id),
+          code: entry.Code,
+          senderFault: entry.SenderFault,
+        })),
+      ],
+    }),
+  };
+}
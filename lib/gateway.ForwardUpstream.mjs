@@ -0,0 +1,102 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.EVENT_SOURCE;
+const UPSTREAM_QUEUE_URL = process.env.UPSTREAM_QUEUE_URL;
+const UPSTREAM_QUEUE_FIFO = process.env.UPSTREAM_QUEUE_FIFO === "true";
+const UPSTREAM_MAX_SIZE = parseInt(process.env.UPSTREAM_MAX_SIZE);
+
+const logger = new Logger();
+const eventBridge = new EventBridgeClient();
+const sqs = new SQSClient();
+
+/**
+ * Sends the client message to the upstream queue, or to the event bus as a ClientMessage event.
+ *
+ * The messages of a user are kept in order in a FIFO queue.
+ *
+ * @param {any} clientMessage the client message with the frame and the user of the connection.
+ * @throws {Error} if the message could not be sent.
+ */
+async function forward(clientMessage) {
+  if (UPSTREAM_QUEUE_URL) {
+    await sqs.send(
+      new SendMessageCommand({
+        QueueUrl: UPSTREAM_QUEUE_URL,
+        MessageBody: JSON.stringify(clientMessage),
+        MessageGroupId: UPSTREAM_QUEUE_FIFO ? clientMessage.userId : undefined,
+        MessageDeduplicationId: UPSTREAM_QUEUE_FIFO
+          ? clientMessage.requestId
+          : undefined,
+      }),
+    );
+    return;
+  }
+
+  const response = await eventBridge.send(
+    new PutEventsCommand({
+      Entries: [
+        {
+          EventBusName: EVENT_BUS_NAME,
+          Source: EVENT_SOURCE,
+          DetailType: "ClientMessage",
+          Detail: JSON.stringify(clientMessage),
+        },
+      ],
+    }),
+  );
+
+  if (response.FailedEntryCount > 0) {
+    throw new Error("Failed to send the client message event");
+  }
+}
+
+/**
+ * The handler function for the websocket $default and custom action routes to forward the frames sent by the client
+ * to the backends.
+ *
+ * The frame is validated by the schema of its route before, and it is tagged with the `userId` (the authorizer
+ * principalId) and the `username` of the connection. The client receives the `requestId` of the forwarded frame, or
+ * the status code 413 if the frame is larger than UPSTREAM_MAX_SIZE.
+ *
+ * @param {any} event the event object.
+ * @returns {any} the response object.
+ */
+export async function handler(event) {
+  const { routeKey, connectionId, requestId, requestTimeEpoch, authorizer } =
+    event.requestContext;
+  logger.appendKeys({ userId: authorizer.principalId, connectionId });
+
+  const size = Buffer.byteLength(event.body ?? "");
+  if (size > UPSTREAM_MAX_SIZE) {
+    logger.warn("The client frame is too large", { size });
+    return {
+      statusCode: 413,
+      body: JSON.stringify({ requestId, message: "The frame is too large" }),
+    };
+  }
+
+  logger.info("Forwarding the client frame", { action: routeKey });
+  await forward({
+    action: routeKey,
+    userId: authorizer.principalId,
+    username: authorizer.username,
+    connectionId,
+    requestId,
+    receivedAt: requestTimeEpoch,
+    frame: JSON.parse(event.body),
+  });
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ requestId }),
+  };
+}
@@ -0,0 +1,99 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import { DynamoDBClient, BatchGetItemCommand } from "@aws-sdk/client-dynamodb";
+import { countConnections } from "./shared/connections.mjs";
+
+const CONNECTIONS_TABLE = process.env.CONNECTIONS_TABLE;
+const PRESENCE_TABLE = process.env.PRESENCE_TABLE;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+
+/**
+ * Gets the last time each user was seen, retrying the keys DynamoDB doesn't process.
+ *
+ * @param {string[]} userIds the unique user IDs.
+ * @returns {Promise<Map<string, number>>} the last seen time of the users that ever connected.
+ */
+async function getLastSeen(userIds) {
+  const lastSeen = new Map();
+  let keys = userIds.map((userId) => ({ userId: { S: userId } }));
+
+  while (keys.length > 0) {
+    const response = await dynamoDB.send(
+      new BatchGetItemCommand({
+        RequestItems: {
+          [PRESENCE_TABLE]: { Keys: keys, ConsistentRead: true },
+        },
+      }),
+    );
+
+    for (const item of response.Responses?.[PRESENCE_TABLE] ?? []) {
+      lastSeen.set(item.userId.S, parseInt(item.lastSeenAt.N));
+    }
+    keys = response.UnprocessedKeys?.[PRESENCE_TABLE]?.Keys ?? [];
+  }
+
+  return lastSeen;
+}
+
+/**
+ * Gets the presence of the users.
+ *
+ * The last seen time of a connected user is the time of the request.
+ *
+ * @param {string[]} userIds the unique user IDs.
+ * @param {number} now the time of the request in milliseconds since epoch.
+ * @returns {Promise<any[]>} the `userId`, `online`, `connections`, and `lastSeenAt` of each user.
+ */
+async function getPresence(userIds, now) {
+  const [lastSeen, connections] = await Promise.all([
+    getLastSeen(userIds),
+    Promise.all(
+      userIds.map((userId) => countConnections(CONNECTIONS_TABLE, userId)),
+    ),
+  ]);
+
+  return userIds.map((userId, index) => ({
+    userId,
+    online: connections[index] > 0,
+    connections: connections[index],
+    lastSeenAt: connections[index] > 0 ? now : (lastSeen.get(userId) ?? null),
+  }));
+}
+
+/**
+ * The handler function for GET /presence/{userId} and POST /presence to get whether the users are online.
+ *
+ * The response of POST /presence has the `users` in the order of the `userIds` of the request.
+ *
+ * @param {any} event the API Gateway proxy event with the `userId` path parameter, or the `userIds` payload.
+ * @returns {any} the response with the presence of the user, or the `users`.
+ */
+export async function handler(event) {
+  const { requestTimeEpoch } = event.requestContext;
+
+  if (event.resource === "/presence/{userId}") {
+    const { userId } = event.pathParameters;
+    logger.appendKeys({ userId });
+    logger.info("Getting the presence of the user");
+
+    const [presence] = await getPresence([userId], requestTimeEpoch);
+    return {
+      statusCode: 200,
+      body: JSON.stringify(presence),
+    };
+  }
+
+  const { userIds } = JSON.parse(event.body);
+  logger.info("Getting the presence of the users", { count: userIds.length });
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      users: await getPresence(userIds, requestTimeEpoch),
+    }),
+  };
+}
@@ -0,0 +1,395 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { setTimeout } from "node:timers/promises";
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  DynamoDBClient,
+  BatchWriteItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+  paginateQuery,
+} from "@aws-sdk/client-dynamodb";
+import {
+  S3Client,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { convertToNative } from "@aws-sdk/util-dynamodb";
+import { decryptMessage } from "./shared/crypto.mjs";
+import { decompressMessage } from "./shared/messages.mjs";
+import { getHeader } from "./shared/requests.mjs";
+
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
+const MESSAGE_STATUS_TABLE = process.env.MESSAGE_STATUS_TABLE;
+const STATUS_TTL_SECONDS = parseInt(process.env.STATUS_TTL_SECONDS);
+const PAYLOADS_BUCKET = process.env.PAYLOADS_BUCKET;
+const PRESIGNED_URL_TTL_SECONDS = parseInt(
+  process.env.PRESIGNED_URL_TTL_SECONDS,
+);
+const MAX_PAGE_SIZE = parseInt(process.env.MAX_PAGE_SIZE);
+const MAX_WAIT_SECONDS = parseInt(process.env.MAX_WAIT_SECONDS);
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS.split(",");
+
+// The number of messages of a page when the client doesn't set the limit
+const DEFAULT_PAGE_SIZE = 10;
+
+// The time between the queries of a long poll
+const POLL_INTERVAL_MS = 1000;
+
+// The maximum number of messages removed in a request, as limited by the DynamoDB BatchWriteItem
+const MAX_BATCH_WRITE_SIZE = 25;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const s3 = new S3Client();
+
+/**
+ * Parses an optional integer query string parameter.
+ *
+ * @param {string | undefined} value the parameter value.
+ * @param {number} defaultValue the value if the parameter is not set.
+ * @param {number} min the minimum value.
+ * @param {number} max the maximum value.
+ * @returns {number | undefined} the value, or undefined if it is invalid.
+ */
+function parseInteger(value, defaultValue, min, max) {
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max
+    ? number
+    : undefined;
+}
+
+/**
+ * Creates the CORS headers of a response for the origin of the request, as the preflight response of the API.
+ *
+ * @param {any} event the API Gateway proxy event.
+ * @returns {any} the response headers.
+ */
+function corsHeaders(event) {
+  if (ALLOWED_ORIGINS.includes("*")) {
+    return { "Access-Control-Allow-Origin": "*" };
+  }
+
+  const origin = getHeader(event, "Origin");
+  return {
+    "Access-Control-Allow-Origin": ALLOWED_ORIGINS.includes(origin)
+      ? origin
+      : ALLOWED_ORIGINS[0],
+    Vary: "Origin",
+  };
+}
+
+/**
+ * Gets a page of the stored messages of the user that didn't expire, oldest first.
+ *
+ * @param {string} userId the user ID.
+ * @param {number} limit the maximum number of messages.
+ * @param {string | undefined} cursor the message key to start after, if any.
+ * @returns {Promise<any>} the message `items` and the `cursor` of the next page, if there are more messages.
+ */
+async function getPage(userId, limit, cursor) {
+  const items = [];
+  let lastKey = cursor && {
+    userId: { S: userId },
+    messageKey: { S: cursor },
+  };
+
+  do {
+    const response = await dynamoDB.send(
+      new QueryCommand({
+        TableName: MESSAGES_TABLE,
+        KeyConditionExpression: "userId = :userId",
+        FilterExpression: "expiresAt > :now",
+        ExpressionAttributeValues: {
+          ":userId": { S: userId },
+          ":now": { N: `${Math.floor(Date.now() / 1000)}` },
+        },
+        ExclusiveStartKey: lastKey,
+        Limit: limit - items.length,
+        ScanIndexForward: true,
+      }),
+    );
+    items.push(...response.Items);
+    lastKey = response.LastEvaluatedKey;
+  } while (lastKey !== undefined && items.length < limit);
+
+  return { items, cursor: lastKey?.messageKey.S };
+}
+
+/**
+ * Creates the inbox message of a stored message, as the websocket frame without compression.
+ *
+ * A large message has the presigned `payloadUrl` to download the payload instead.
+ *
+ * @param {any} item the message record from the messages table.
+ * @returns {Promise<any>} the inbox message.
+ */
+async function inboxMessage(item) {
+  const messageId = item.messageId.S;
+  const message = {
+    messageId,
+    sequence: parseInt(item.sequence.N),
+    timestamp: parseInt(item.timestamp.N),
+    topic: item.topic?.S,
+    contentType: item.contentType?.S,
+  };
+
+  if (item.payloadKey !== undefined) {
+    const payloadUrl = await getSignedUrl(
+      s3,
+      new GetObjectCommand({
+        Bucket: PAYLOADS_BUCKET,
+        Key: item.payloadKey.S,
+      }),
+      { expiresIn: PRESIGNED_URL_TTL_SECONDS },
+    );
+    return {
+      ...message,
+      payloadSize: parseInt(item.payloadSize.N),
+      payloadUrl,
+    };
+  }
+
+  if (item.encryptedMessage !== undefined) {
+    return {
+      ...message,
+      payload: await decryptMessage(
+        convertToNative(item.encryptedMessage),
+        messageId,
+      ),
+    };
+  }
+
+  if (item.encoding !== undefined) {
+    return {
+      ...message,
+      payload: decompressMessage(Buffer.from(item.message.B), item.encoding.S),
+    };
+  }
+
+  return { ...message, payload: convertToNative(item.message) };
+}
+
+/**
+ * Records that a stored message is delivered through the inbox, unless it is already delivered, so polling the inbox
+ * again before the acknowledgement doesn't count more attempts.
+ *
+ * @param {any} item the message record from the messages table.
+ */
+async function setDeliveredStatus(item) {
+  const expiresAt = parseInt(item.expiresAt.N);
+  try {
+    await dynamoDB.send(
+      new UpdateItemCommand({
+        TableName: MESSAGE_STATUS_TABLE,
+        Key: {
+          messageId: item.messageId,
+          userId: item.userId,
+        },
+        UpdateExpression:
+          "SET #status = :status, createdAt = :createdAt, updatedAt = :updatedAt, expiresAt = :expiresAt, #ttl = :ttl ADD attempts :one",
+        ExpressionAttributeNames: {
+          "#status": "status",
+          "#ttl": "ttl",
+        },
+        ExpressionAttributeValues: {
+          ":status": { S: "delivered" },
+          ":createdAt": item.timestamp,
+          ":updatedAt": { N: `${Date.now()}` },
+          ":expiresAt": item.expiresAt,
+          ":ttl": { N: `${expiresAt + STATUS_TTL_SECONDS}` },
+          ":one": { N: "1" },
+        },
+        ConditionExpression:
+          "attribute_not_exists(#status) OR #status <> :status",
+      }),
+    );
+  } catch (error) {
+    if (error.name !== "ConditionalCheckFailedException") {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Gets the inbox of the user, waiting for a message up to the `wait` seconds if there is none (long polling).
+ *
+ * @param {string} userId the user ID.
+ * @param {any} params the query string parameters: `limit`, `cursor`, and `wait`.
+ * @returns {Promise<any>} the response with the `messages` and the `cursor` of the next page, if any.
+ */
+async function getInbox(userId, params) {
+  const limit = parseInteger(params.limit, DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+  const wait = parseInteger(params.wait, 0, 0, MAX_WAIT_SECONDS);
+  if (limit === undefined || wait === undefined) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: "Invalid limit or wait" }),
+    };
+  }
+
+  const deadline = Date.now() + wait * 1000;
+  let page = await getPage(userId, limit, params.cursor);
+  while (page.items.length === 0 && Date.now() < deadline) {
+    await setTimeout(POLL_INTERVAL_MS);
+    page = await getPage(userId, limit, params.cursor);
+  }
+
+  logger.info("Sending the inbox messages", { count: page.items.length });
+  const messages = await Promise.all(page.items.map(inboxMessage));
+  await Promise.all(page.items.map(setDeliveredStatus));
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ messages, cursor: page.cursor }),
+  };
+}
+
+/**
+ * Parses the acknowledged message IDs of the request body, as validated by the API for JSON requests.
+ *
+ * @param {string | null} body the request body.
+ * @returns {string[] | undefined} the message IDs, or undefined if the body is invalid.
+ */
+function parseMessageIds(body) {
+  try {
+    const { messageIds } = JSON.parse(body);
+    return Array.isArray(messageIds) &&
+      messageIds.length > 0 &&
+      messageIds.length <= MAX_PAGE_SIZE &&
+      messageIds.every(
+        (messageId) => typeof messageId === "string" && messageId !== "",
+      )
+      ? messageIds
+      : undefined;
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Removes messages from the messages table, sending again the ones not processed by DynamoDB.
+ *
+ * @param {any[]} items the message records with their keys.
+ */
+async function deleteMessages(items) {
+  let requests = items.map((item) => ({
+    DeleteRequest: {
+      Key: {
+        userId: item.userId,
+        messageKey: item.messageKey,
+      },
+    },
+  }));
+
+  while (requests.length > 0) {
+    const response = await dynamoDB.send(
+      new BatchWriteItemCommand({
+        RequestItems: { [MESSAGES_TABLE]: requests },
+      }),
+    );
+    requests = response.UnprocessedItems?.[MESSAGES_TABLE] ?? [];
+  }
+}
+
+/**
+ * Removes the acknowledged messages of the user, and their payloads if they are large messages.
+ *
+ * @param {string} userId the user ID.
+ * @param {string[]} messageIds the acknowledged message IDs.
+ * @returns {Promise<any>} the response with the number of `acknowledged` messages.
+ */
+async function ackMessages(userId, messageIds) {
+  const paginatorConfig = {
+    client: dynamoDB,
+    pageSize: 100,
+  };
+
+  // The user's messages are few, so filtering them is cheaper than an index.
+  const values = Object.fromEntries(
+    messageIds.map((messageId, index) => [`:m${index}`, { S: messageId }]),
+  );
+  const command = {
+    TableName: MESSAGES_TABLE,
+    KeyConditionExpression: "userId = :userId",
+    FilterExpression: `messageId IN (${Object.keys(values).join(",")})`,
+    ExpressionAttributeValues: {
+      ":userId": { S: userId },
+      ...values,
+    },
+    ProjectionExpression: "userId,messageKey,payloadKey",
+  };
+
+  const items = [];
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    items.push(...page.Items);
+  }
+
+  const batches = [];
+  for (let i = 0; i < items.length; i += MAX_BATCH_WRITE_SIZE) {
+    batches.push(items.slice(i, i + MAX_BATCH_WRITE_SIZE));
+  }
+  await Promise.all(batches.map(deleteMessages));
+
+  // The payloads are up to MAX_PAGE_SIZE, within the 1000 objects of a request.
+  const payloadKeys = items
+    .filter((item) => item.payloadKey !== undefined)
+    .map((item) => ({ Key: item.payloadKey.S }));
+  if (payloadKeys.length > 0) {
+    const response = await s3.send(
+      new DeleteObjectsCommand({
+        Bucket: PAYLOADS_BUCKET,
+        Delete: { Objects: payloadKeys, Quiet: true },
+      }),
+    );
+    if (response.Errors?.length > 0) {
+      logger.error("Failed to remove the payloads", {
+        errors: response.Errors,
+      });
+    }
+  }
+
+  logger.info("Removed the acknowledged messages", {
+    acknowledged: items.length,
+  });
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ acknowledged: items.length }),
+  };
+}
+
+/**
+ * The handler function for GET /inbox and POST /inbox/ack, for the clients that can't keep a websocket connection.
+ *
+ * The user is the `sub` claim of the Cognito token, the same user ID of the websocket connections. The messages are
+ * kept until the client acknowledges them with the `messageIds` property, as the websocket `ack` action. The responses
+ * have the CORS headers of the ALLOWED_ORIGINS for the browser clients.
+ *
+ * @param {any} event the API Gateway proxy event.
+ * @returns {any} the response with the messages, or the number of acknowledged messages.
+ */
+export async function handler(event) {
+  const userId = event.requestContext.authorizer.claims.sub;
+  logger.appendKeys({ userId });
+
+  let response;
+  if (event.resource === "/inbox") {
+    response = await getInbox(userId, event.queryStringParameters ?? {});
+  } else {
+    const messageIds = parseMessageIds(event.body);
+    response =
+      messageIds === undefined
+        ? {
+            statusCode: 400,
+            body: JSON.stringify({ message: "Invalid message IDs" }),
+          }
+        : await ackMessages(userId, messageIds);
+  }
+
+  return { ...response, headers: corsHeaders(event) };
+}
@@ -0,0 +1,128 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import { DynamoDBClient, UpdateItemCommand } from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { countConnections } from "./shared/connections.mjs";
+
+const CONNECTIONS_TABLE = process.env.CONNECTIONS_TABLE;
+const PRESENCE_TABLE = process.env.PRESENCE_TABLE;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.EVENT_SOURCE;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const eventBridge = new EventBridgeClient();
+
+/**
+ * Records the last time the user was seen, unless a later time is already recorded.
+ *
+ * @param {string} userId the user ID.
+ * @param {number} time the time in milliseconds since epoch.
+ */
+async function setLastSeen(userId, time) {
+  try {
+    await dynamoDB.send(
+      new UpdateItemCommand({
+        TableName: PRESENCE_TABLE,
+        Key: { userId: { S: userId } },
+        UpdateExpression: "SET lastSeenAt = :time",
+        ConditionExpression:
+          "attribute_not_exists(lastSeenAt) OR lastSeenAt < :time",
+        ExpressionAttributeValues: { ":time": { N: `${time}` } },
+      }),
+    );
+  } catch (error) {
+    if (error.name !== "ConditionalCheckFailedException") {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Creates the UserConnected or UserDisconnected event of a Connections stream record.
+ *
+ * A connection record removed by the TTL is a disconnection never received, so the event is `expired`.
+ *
+ * @param {any} record the DynamoDB stream record.
+ * @param {number} time the time of the change in milliseconds since epoch.
+ * @param {number} connections the number of connections of the user when the change is processed.
+ * @returns {any} the event entry.
+ */
+function presenceEvent(record, time, connections) {
+  const userId = record.dynamodb.Keys.userId.S;
+  const connectionId = record.dynamodb.Keys.connectionId.S;
+
+  const detail =
+    record.eventName === "INSERT"
+      ? { userId, connectionId, connectedAt: time, connections }
+      : {
+          userId,
+          connectionId,
+          disconnectedAt: time,
+          expired:
+            record.userIdentity?.principalId === "dynamodb.amazonaws.com",
+          connections,
+        };
+
+  return {
+    EventBusName: EVENT_BUS_NAME,
+    Source: EVENT_SOURCE,
+    DetailType:
+      record.eventName === "INSERT" ? "UserConnected" : "UserDisconnected",
+    Detail: JSON.stringify(detail),
+  };
+}
+
+/**
+ * The handler function for the connections stream to record the last time the users were seen and to send the
+ * UserConnected and UserDisconnected events.
+ *
+ * The records are processed in order, so a failed record is retried with the records after it.
+ *
+ * @param {any} event the event object.
+ * @returns {any} the batch item failures.
+ */
+export async function handler(event) {
+  for (const record of event.Records) {
+    const userId = record.dynamodb.Keys.userId.S;
+    logger.appendKeys({
+      userId,
+      connectionId: record.dynamodb.Keys.connectionId.S,
+    });
+
+    try {
+      const time = record.dynamodb.ApproximateCreationDateTime * 1000;
+      await setLastSeen(userId, time);
+
+      const connections = await countConnections(CONNECTIONS_TABLE, userId);
+      logger.info("Sending the presence event", {
+        eventName: record.eventName,
+        connections,
+      });
+
+      const response = await eventBridge.send(
+        new PutEventsCommand({
+          Entries: [presenceEvent(record, time, connections)],
+        }),
+      );
+
+      if (response.FailedEntryCount > 0) {
+        throw new Error("Failed to send the presence event");
+      }
+    } catch (error) {
+      logger.error("Failed to process the connection change", { error });
+      return {
+        batchItemFailures: [{ itemIdentifier: record.dynamodb.SequenceNumber }],
+      };
+    }
+  }
+
+  return {
+    batchItemFailures: [],
+  };
+}
@@ -0,0 +1,119 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { createHash } from "node:crypto";
+import { Logger } from "@aws-lambda-powertools/logger";
+import { DynamoDBClient, paginateQuery } from "@aws-sdk/client-dynamodb";
+import { SQSClient, SendMessageBatchCommand } from "@aws-sdk/client-sqs";
+import { encryptMessage } from "./shared/crypto.mjs";
+import { messageSize } from "./shared/messages.mjs";
+
+const SUBSCRIPTIONS_TABLE = process.env.SUBSCRIPTIONS_TABLE;
+const MESSAGES_QUEUE_URL = process.env.MESSAGES_QUEUE_URL;
+const HIGH_PRIORITY_QUEUE_URL = process.env.HIGH_PRIORITY_QUEUE_URL;
+const ENCRYPTION_KEY_ARN = process.env.ENCRYPTION_KEY_ARN;
+const MAX_MESSAGE_SIZE = parseInt(process.env.MAX_MESSAGE_SIZE);
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const sqs = new SQSClient();
+
+/**
+ * Creates the deduplication ID of the message for a subscriber.
+ *
+ * It is the same in each try, so a retried publication doesn't duplicate the messages already queued.
+ *
+ * @param {string} messageId the ID of the published message.
+ * @param {string} userId the user ID of the subscriber.
+ * @returns {string} the deduplication ID.
+ */
+function deduplicationId(messageId, userId) {
+  return createHash("sha256").update(`${messageId}:${userId}`).digest("hex");
+}
+
+/**
+ * The handler function to send a message published to a topic to each subscriber through the messages queue.
+ *
+ * The message is encrypted once for all the subscribers when ENCRYPTION_KEY_ARN is set. The API invokes the function
+ * synchronously for a message larger than MAX_MESSAGE_SIZE, so the rejection is answered with the 413 status code.
+ *
+ * @param {any} event the published message with the topic, timestamp, messageId, message, expiresAt, and priority.
+ * @throws {Error} if the message is too large, or if any message could not be queued, so the publication is retried.
+ */
+export async function handler(event) {
+  const { topic, messageId } = event;
+  logger.appendKeys({ topic, messageId });
+
+  if (messageSize(event.message) > MAX_MESSAGE_SIZE) {
+    logger.warn("Rejecting the message, it is too large");
+    throw new Error("The message is too large");
+  }
+  logger.info("Publishing message to the topic subscribers");
+
+  const content = ENCRYPTION_KEY_ARN
+    ? {
+        encryptedMessage: await encryptMessage(
+          event.message,
+          messageId,
+          ENCRYPTION_KEY_ARN,
+        ),
+      }
+    : { message: event.message };
+
+  const paginatorConfig = {
+    client: dynamoDB,
+    pageSize: 10,
+  };
+
+  const command = {
+    TableName: SUBSCRIPTIONS_TABLE,
+    KeyConditionExpression: "topic = :topic",
+    ExpressionAttributeValues: {
+      ":topic": { S: topic },
+    },
+    ProjectionExpression: "userId",
+  };
+
+  let subscribers = 0;
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    if (page.Count === 0) {
+      continue;
+    }
+
+    const response = await sqs.send(
+      new SendMessageBatchCommand({
+        QueueUrl:
+          event.priority === "high"
+            ? HIGH_PRIORITY_QUEUE_URL
+            : MESSAGES_QUEUE_URL,
+        Entries: page.Items.map((item, index) => ({
+          Id: `${index}`,
+          MessageBody: JSON.stringify({
+            userId: item.userId.S,
+            timestamp: event.timestamp,
+            messageId,
+            topic,
+            priority: event.priority,
+            ...content,
+            contentType: event.contentType,
+            expiresAt: event.expiresAt,
+          }),
+          MessageDeduplicationId: deduplicationId(messageId, item.userId.S),
+          MessageGroupId: item.userId.S,
+        })),
+      }),
+    );
+
+    if (response.Failed?.length > 0) {
+      logger.error("failed to send messages to the queue", {
+        Successful: response.Successful?.length ?? 0,
+        Failed: response.Failed.length,
+      });
+      throw new Error("Failed to publish the message");
+    }
+
+    subscribers += page.Count;
+  }
+
+  logger.info("Message published", { subscribers });
+}
@@ -0,0 +1,138 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { queuedMessage } from "./shared/messages.mjs";
+
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
+const MESSAGES_QUEUE_URL = process.env.MESSAGES_QUEUE_URL;
+const HIGH_PRIORITY_QUEUE_URL = process.env.HIGH_PRIORITY_QUEUE_URL;
+const MESSAGE_STATUS_TABLE = process.env.MESSAGE_STATUS_TABLE;
+const STATUS_TTL_SECONDS = parseInt(process.env.STATUS_TTL_SECONDS);
+const MAX_REDELIVERIES = parseInt(process.env.MAX_REDELIVERIES);
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const sqs = new SQSClient();
+
+/**
+ * Sends again a delivered message if the client didn't acknowledge it.
+ *
+ * @param {any} check the redelivery check with the userId, timestamp, messageId, and attempt.
+ */
+async function redeliver(check) {
+  const response = await dynamoDB.send(
+    new GetItemCommand({
+      TableName: MESSAGES_TABLE,
+      Key: {
+        userId: { S: check.userId },
+        messageKey: {
+          S: `${check.timestamp}`.padStart(13, "0") + `#${check.messageId}`,
+        },
+      },
+      ConsistentRead: true,
+    }),
+  );
+
+  if (response.Item?.messageId?.S !== check.messageId) {
+    logger.info("Message was acknowledged");
+    return;
+  }
+
+  const expiresAt = parseInt(response.Item.expiresAt.N);
+  if (expiresAt <= Date.now() / 1000) {
+    logger.info("Message expired before acknowledgement");
+    return;
+  }
+
+  const attempt = check.attempt + 1;
+  if (attempt > MAX_REDELIVERIES) {
+    logger.warn("Message not acknowledged, waiting for the user to reconnect", {
+      attempt,
+    });
+    return;
+  }
+
+  logger.info("Message not acknowledged, sending it again", { attempt });
+
+  // The status is recorded before sending so it doesn't overwrite the status of the delivery.
+  await dynamoDB.send(
+    new UpdateItemCommand({
+      TableName: MESSAGE_STATUS_TABLE,
+      Key: {
+        messageId: { S: check.messageId },
+        userId: { S: check.userId },
+      },
+      UpdateExpression:
+        "SET #status = :status, createdAt = :createdAt, updatedAt = :updatedAt, expiresAt = :expiresAt, #ttl = :ttl ADD attempts :zero",
+      ExpressionAttributeNames: {
+        "#status": "status",
+        "#ttl": "ttl",
+      },
+      ExpressionAttributeValues: {
+        ":status": { S: "queued" },
+        ":createdAt": { N: `${check.timestamp}` },
+        ":updatedAt": { N: `${Date.now()}` },
+        ":expiresAt": { N: `${expiresAt}` },
+        ":ttl": { N: `${expiresAt + STATUS_TTL_SECONDS}` },
+        ":zero": { N: "0" },
+      },
+    }),
+  );
+
+  await sqs.send(
+    new SendMessageCommand({
+      QueueUrl:
+        response.Item.priority?.S === "high"
+          ? HIGH_PRIORITY_QUEUE_URL
+          : MESSAGES_QUEUE_URL,
+      MessageBody: JSON.stringify({
+        userId: check.userId,
+        timestamp: check.timestamp,
+        messageId: check.messageId,
+        sequence: parseInt(response.Item.sequence.N),
+        topic: response.Item.topic?.S,
+        priority: response.Item.priority?.S,
+        ...queuedMessage(response.Item),
+        contentType: response.Item.contentType?.S,
+        payloadKey: response.Item.payloadKey?.S,
+        payloadSize:
+          response.Item.payloadSize && parseInt(response.Item.payloadSize.N),
+        expiresAt,
+        attempt,
+      }),
+      MessageDeduplicationId: crypto.randomUUID(),
+      MessageGroupId: check.userId,
+    }),
+  );
+}
+
+/**
+ * The handler function for the redelivery queue to send again the messages that were not acknowledged.
+ *
+ * @param {any} event the event object.
+ * @returns {any} the batch item failures.
+ */
+export async function handler(event) {
+  const batchItemFailures = [];
+
+  for (const record of event.Records) {
+    const check = JSON.parse(record.body);
+    logger.appendKeys({ userId: check.userId, messageId: check.messageId });
+
+    try {
+      await redeliver(check);
+    } catch (err) {
+      logger.error("Failed to redeliver the message", { error: err.message });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+}
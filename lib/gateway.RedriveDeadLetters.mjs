@@ -0,0 +1,257 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import {
+  SQSClient,
+  DeleteMessageCommand,
+  ReceiveMessageCommand,
+  SendMessageCommand,
+} from "@aws-sdk/client-sqs";
+import { convertToAttr } from "@aws-sdk/util-dynamodb";
+import { decompressMessage, messageSize } from "./shared/messages.mjs";
+
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
+const MESSAGES_QUEUE_URL = process.env.MESSAGES_QUEUE_URL;
+const HIGH_PRIORITY_QUEUE_URL = process.env.HIGH_PRIORITY_QUEUE_URL;
+const MESSAGE_STATUS_TABLE = process.env.MESSAGE_STATUS_TABLE;
+const STATUS_TTL_SECONDS = parseInt(process.env.STATUS_TTL_SECONDS);
+const DEAD_LETTER_QUEUE_URL = process.env.DEAD_LETTER_QUEUE_URL;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.EVENT_SOURCE;
+
+// The default number of messages to move in an invocation to finish before the function timeout
+const MAX_MESSAGES = 100;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const sqs = new SQSClient();
+const eventBridge = new EventBridgeClient();
+
+/**
+ * Records the status of a redriven message.
+ *
+ * @param {any} body the body of the dead-lettered message.
+ * @param {string} status the status of the message, `queued`, `pending-offline`, or `expired`.
+ */
+async function setStatus(body, status) {
+  await dynamoDB.send(
+    new UpdateItemCommand({
+      TableName: MESSAGE_STATUS_TABLE,
+      Key: {
+        messageId: { S: body.messageId },
+        userId: { S: body.userId },
+      },
+      UpdateExpression:
+        "SET #status = :status, createdAt = :createdAt, updatedAt = :updatedAt, expiresAt = :expiresAt, #ttl = :ttl ADD attempts :zero",
+      ExpressionAttributeNames: {
+        "#status": "status",
+        "#ttl": "ttl",
+      },
+      ExpressionAttributeValues: {
+        ":status": { S: status },
+        ":createdAt": { N: `${body.timestamp}` },
+        ":updatedAt": { N: `${Date.now()}` },
+        ":expiresAt": { N: `${body.expiresAt}` },
+        ":ttl": { N: `${body.expiresAt + STATUS_TTL_SECONDS}` },
+        ":zero": { N: "0" },
+      },
+    }),
+  );
+}
+
+/**
+ * Discards an expired dead-lettered message, recording its status and sending the MessageExpired event.
+ *
+ * @param {any} body the body of the dead-lettered message.
+ * @throws {Error} if the event could not be sent, so the message is kept at the queue.
+ */
+async function discard(body) {
+  const response = await eventBridge.send(
+    new PutEventsCommand({
+      Entries: [
+        {
+          EventBusName: EVENT_BUS_NAME,
+          Source: EVENT_SOURCE,
+          DetailType: "MessageExpired",
+          Detail: JSON.stringify({
+            messageId: body.messageId,
+            userId: body.userId,
+            sequence: body.sequence,
+            topic: body.topic,
+            createdAt: body.timestamp,
+            expiresAt: body.expiresAt,
+          }),
+        },
+      ],
+    }),
+  );
+
+  if (response.FailedEntryCount > 0) {
+    throw new Error("Failed to send the expired message event");
+  }
+
+  await setStatus(body, "expired");
+}
+
+/**
+ * Sends a dead-lettered message that failed before it got a sequence number to its queue again.
+ *
+ * The message keeps its `deliverAt`, `delaySeconds`, `idempotencyKey`, and `collapseKey`, so the SendMessage Step
+ * Functions schedules, deduplicates, and collapses it as the first time, and stores it if the user is not connected.
+ *
+ * @param {any} body the body of the dead-lettered message.
+ */
+async function requeue(body) {
+  await setStatus(body, "queued");
+
+  await sqs.send(
+    new SendMessageCommand({
+      QueueUrl:
+        body.priority === "high" ? HIGH_PRIORITY_QUEUE_URL : MESSAGES_QUEUE_URL,
+      MessageBody: JSON.stringify(body),
+      // The message may have been sent with its deduplication ID less than 5 minutes ago
+      MessageDeduplicationId: crypto.randomUUID(),
+      MessageGroupId: body.userId,
+    }),
+  );
+}
+
+/**
+ * Stores a dead-lettered message with a sequence number at the messages table to be sent when the user connects.
+ *
+ * The message was scheduled, deduplicated, and collapsed before it got its sequence number. The restored message
+ * counts in the backlog of the user, but it is restored even if the backlog is full.
+ *
+ * @param {any} body the body of the dead-lettered message.
+ */
+async function restore(body) {
+  const item = {
+    userId: { S: body.userId },
+    messageKey: {
+      S: `${body.timestamp}`.padStart(13, "0") + `#${body.messageId}`,
+    },
+    timestamp: { N: `${body.timestamp}` },
+    messageId: { S: body.messageId },
+    sequence: { N: `${body.sequence}` },
+    expiresAt: { N: `${body.expiresAt}` },
+  };
+  if (body.topic !== undefined) {
+    item.topic = { S: body.topic };
+  }
+  if (body.priority !== undefined) {
+    item.priority = { S: body.priority };
+  }
+  if (body.contentType !== undefined) {
+    item.contentType = { S: body.contentType };
+  }
+  if (body.payloadKey !== undefined) {
+    item.payloadKey = { S: body.payloadKey };
+    item.payloadSize = { N: `${body.payloadSize}` };
+    item.messageSize = { N: `${body.payloadSize}` };
+  } else if (body.encryptedMessage !== undefined) {
+    item.encryptedMessage = convertToAttr(body.encryptedMessage);
+    item.messageSize = {
+      N: `${Math.floor((body.encryptedMessage.data.length * 3) / 4)}`,
+    };
+  } else if (body.compressedMessage !== undefined) {
+    const compressed = Buffer.from(body.compressedMessage, "base64");
+    item.message = { B: compressed };
+    item.encoding = { S: body.encoding };
+    item.messageSize = {
+      N: `${messageSize(decompressMessage(compressed, body.encoding))}`,
+    };
+  } else {
+    item.message = convertToAttr(body.message);
+    item.messageSize = { N: `${messageSize(body.message)}` };
+  }
+
+  await dynamoDB.send(
+    new PutItemCommand({
+      TableName: MESSAGES_TABLE,
+      Item: item,
+    }),
+  );
+
+  await setStatus(body, "pending-offline");
+}
+
+/**
+ * The handler function to move the dead-lettered messages to the messages table, so they are sent again when the
+ * user connects, or to their queue if they failed before getting a sequence number.
+ *
+ * It is invoked on demand, so the dead-lettered messages can be inspected before.
+ *
+ * @param {any} event the event object with the maximum number of messages to move (`maxMessages`, default: 100).
+ * @returns {any} the number of messages `redriven`, `discarded` because they expired, and `failed`.
+ */
+export async function handler(event) {
+  const maxMessages = event?.maxMessages ?? MAX_MESSAGES;
+  let redriven = 0;
+  let discarded = 0;
+  let failed = 0;
+
+  while (redriven + discarded + failed < maxMessages) {
+    const response = await sqs.send(
+      new ReceiveMessageCommand({
+        QueueUrl: DEAD_LETTER_QUEUE_URL,
+        MaxNumberOfMessages: Math.min(
+          10,
+          maxMessages - redriven - discarded - failed,
+        ),
+        WaitTimeSeconds: 1,
+      }),
+    );
+
+    if (!response.Messages?.length) {
+      break;
+    }
+
+    for (const message of response.Messages) {
+      try {
+        const body = JSON.parse(message.Body);
+        logger.appendKeys({ userId: body.userId, messageId: body.messageId });
+
+        if (body.expiresAt <= Date.now() / 1000) {
+          logger.info("Discarding expired message");
+          await discard(body);
+          discarded++;
+        } else if (body.sequence === undefined) {
+          logger.info("Sending message to the queue again");
+          await requeue(body);
+          redriven++;
+        } else {
+          logger.info("Restoring message");
+          await restore(body);
+          redriven++;
+        }
+
+        await sqs.send(
+          new DeleteMessageCommand({
+            QueueUrl: DEAD_LETTER_QUEUE_URL,
+            ReceiptHandle: message.ReceiptHandle,
+          }),
+        );
+      } catch (err) {
+        logger.error("Failed to redrive the message", { error: err.message });
+        failed++;
+      }
+    }
+  }
+
+  logger.info("Dead-lettered messages processed", {
+    redriven,
+    discarded,
+    failed,
+  });
+  return { redriven, discarded, failed };
+}
@@ -0,0 +1,237 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  paginateQuery,
+} from "@aws-sdk/client-dynamodb";
+import { convertToNative } from "@aws-sdk/util-dynamodb";
+import { decryptMessage } from "./shared/crypto.mjs";
+import { decompressMessage } from "./shared/messages.mjs";
+
+const HISTORY_TABLE = process.env.HISTORY_TABLE;
+const CONNECTIONS_TABLE = process.env.CONNECTIONS_TABLE;
+const MAX_HISTORY_MESSAGES = parseInt(process.env.MAX_HISTORY_MESSAGES);
+const WEBSOCKET_ENDPOINT = process.env.WEBSOCKET_ENDPOINT;
+
+const logger = new Logger();
+const dynamoDB = new DynamoDBClient();
+const websocket = new ApiGatewayManagementApiClient({
+  endpoint: WEBSOCKET_ENDPOINT,
+});
+
+/**
+ * Parses the resume request sent by the client.
+ *
+ * @param {string} body the websocket frame sent by the client.
+ * @returns {any | undefined} the last received `sequence` or `messageId`, if any, or undefined if the frame is invalid.
+ */
+function parseCursor(body) {
+  try {
+    const { sequence, messageId } = JSON.parse(body);
+    if (sequence !== undefined && !Number.isInteger(sequence)) {
+      return undefined;
+    }
+    if (messageId !== undefined && typeof messageId !== "string") {
+      return undefined;
+    }
+    return { sequence, messageId };
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Gets the sequence number of a message at the history of the user.
+ *
+ * @param {string} userId the user ID.
+ * @param {string} messageId the message ID.
+ * @returns {Promise<number | undefined>} the sequence number, or undefined if the message is not in the history.
+ */
+async function getSequence(userId, messageId) {
+  const paginatorConfig = {
+    client: dynamoDB,
+  };
+
+  // The history of a user is bounded, so filtering it is cheaper than an index.
+  const command = {
+    TableName: HISTORY_TABLE,
+    KeyConditionExpression: "userId = :userId",
+    FilterExpression: "messageId = :messageId",
+    ExpressionAttributeValues: {
+      ":userId": { S: userId },
+      ":messageId": { S: messageId },
+    },
+    ProjectionExpression: "#sequence",
+    ExpressionAttributeNames: { "#sequence": "sequence" },
+  };
+
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    if (page.Items.length > 0) {
+      return parseInt(page.Items[0].sequence.N);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Gets the messages of the history of the user after the sequence number, in order, without the expired ones not
+ * removed by the TTL yet. Only the MAX_HISTORY_MESSAGES most recent messages are kept, so the history is read from the
+ * most recent message and stops once there are more.
+ *
+ * @param {string} userId the user ID.
+ * @param {number | undefined} sequence the sequence number of the last received message, if any.
+ * @returns {Promise<any>} the message `items` and whether older messages were `truncated`.
+ */
+async function getHistory(userId, sequence) {
+  const paginatorConfig = {
+    client: dynamoDB,
+    pageSize: MAX_HISTORY_MESSAGES + 1,
+  };
+
+  const command = {
+    TableName: HISTORY_TABLE,
+    KeyConditionExpression:
+      sequence === undefined
+        ? "userId = :userId"
+        : "userId = :userId AND #sequence > :sequence",
+    FilterExpression: "#ttl > :now",
+    ExpressionAttributeNames: {
+      "#ttl": "ttl",
+      ...(sequence === undefined ? {} : { "#sequence": "sequence" }),
+    },
+    ExpressionAttributeValues: {
+      ":userId": { S: userId },
+      ":now": { N: `${Math.floor(Date.now() / 1000)}` },
+      ...(sequence === undefined ? {} : { ":sequence": { N: `${sequence}` } }),
+    },
+    ScanIndexForward: false,
+  };
+
+  const items = [];
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    items.push(...page.Items);
+    if (items.length > MAX_HISTORY_MESSAGES) {
+      break;
+    }
+  }
+
+  return {
+    items: items.slice(0, MAX_HISTORY_MESSAGES).reverse(),
+    truncated: items.length > MAX_HISTORY_MESSAGES,
+  };
+}
+
+/**
+ * Creates the websocket frame of a message of the history, as the gateway sent it.
+ *
+ * A compressed message is sent compressed only if the client supports its encoding.
+ *
+ * @param {any} item the message record from the history table.
+ * @param {string[]} compression the encodings the client supports.
+ * @returns {Promise<any>} the websocket frame.
+ */
+async function messageFrame(item, compression) {
+  const messageId = item.messageId.S;
+  const frame = {
+    messageId,
+    sequence: parseInt(item.sequence.N),
+    timestamp: parseInt(item.timestamp.N),
+    topic: item.topic?.S,
+    contentType: item.contentType?.S,
+  };
+
+  if (item.encryptedMessage !== undefined) {
+    return {
+      ...frame,
+      payload: await decryptMessage(
+        convertToNative(item.encryptedMessage),
+        messageId,
+      ),
+    };
+  }
+
+  if (item.encoding === undefined) {
+    return { ...frame, payload: convertToNative(item.message) };
+  }
+
+  const encoding = item.encoding.S;
+  const compressed = Buffer.from(item.message.B);
+  if (compression.includes(encoding)) {
+    return { ...frame, encoding, payload: compressed.toString("base64") };
+  }
+
+  return { ...frame, payload: decompressMessage(compressed, encoding) };
+}
+
+/**
+ * The handler function for the websocket resume route to send again the messages of the history after the last one
+ * the client received, in order, to the connection.
+ *
+ * The client sends `{"action": "resume", "sequence": <sequence>}` or `{"action": "resume", "messageId": "<message
+ * ID>"}`, or `{"action": "resume"}` for all the history. A message ID that is not in the history anymore sends all
+ * the history, and `truncated` is true if messages after the last received one may be missing.
+ *
+ * @param {any} event the event object.
+ * @returns {any} the response object with the number of `resumed` messages.
+ */
+export async function handler(event) {
+  const userId = event.requestContext.authorizer.principalId;
+  const connectionId = event.requestContext.connectionId;
+  logger.appendKeys({ userId, connectionId });
+
+  const cursor = parseCursor(event.body);
+  if (cursor === undefined) {
+    logger.error("Invalid resume request");
+    return { statusCode: 400 };
+  }
+
+  let sequence = cursor.sequence;
+  let truncated = false;
+  if (sequence === undefined && cursor.messageId !== undefined) {
+    sequence = await getSequence(userId, cursor.messageId);
+    truncated = sequence === undefined;
+  }
+
+  const history = await getHistory(userId, sequence);
+
+  const connection = await dynamoDB.send(
+    new GetItemCommand({
+      TableName: CONNECTIONS_TABLE,
+      Key: {
+        userId: { S: userId },
+        connectionId: { S: connectionId },
+      },
+      ProjectionExpression: "compression",
+    }),
+  );
+  const compression = (connection.Item?.compression?.S ?? "").split(",");
+
+  logger.info("Sending the messages of the history", {
+    sequence,
+    count: history.items.length,
+  });
+  for (const item of history.items) {
+    await websocket.send(
+      new PostToConnectionCommand({
+        ConnectionId: connectionId,
+        Data: JSON.stringify(await messageFrame(item, compression)),
+      }),
+    );
+  }
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      resumed: history.items.length,
+      truncated: truncated || history.truncated,
+    }),
+  };
+}
@@ -0,0 +1,45 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import { decryptMessage } from "./shared/crypto.mjs";
+
+const WEBSOCKET_ENDPOINT = process.env.WEBSOCKET_ENDPOINT;
+
+const logger = new Logger();
+const websocket = new ApiGatewayManagementApiClient({
+  endpoint: WEBSOCKET_ENDPOINT,
+});
+
+/**
+ * The handler function to decrypt a message and send it to a connection, so the plaintext is not in the workflow
+ * execution data.
+ *
+ * @param {any} event the message body and the connection ID.
+ * @throws {Error} if the message could not be sent, as GoneException if the client is not connected.
+ */
+export async function handler(event) {
+  const { body, connectionId } = event;
+  logger.appendKeys({ messageId: body.messageId, connectionId });
+
+  const payload = await decryptMessage(body.encryptedMessage, body.messageId);
+
+  logger.info("Sending the decrypted message");
+  await websocket.send(
+    new PostToConnectionCommand({
+      ConnectionId: connectionId,
+      Data: JSON.stringify({
+        messageId: body.messageId,
+        sequence: body.sequence,
+        timestamp: body.timestamp,
+        topic: body.topic,
+        contentType: body.contentType,
+        payload,
+      }),
+    }),
+  );
+}
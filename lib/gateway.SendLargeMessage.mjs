@@ -0,0 +1,117 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+const PAYLOADS_BUCKET = process.env.PAYLOADS_BUCKET;
+const WEBSOCKET_ENDPOINT = process.env.WEBSOCKET_ENDPOINT;
+const CLAIM_CHECK_DELIVERY = process.env.CLAIM_CHECK_DELIVERY;
+const PRESIGNED_URL_TTL_SECONDS = parseInt(
+  process.env.PRESIGNED_URL_TTL_SECONDS,
+);
+
+// The bytes of the escaped payload in each chunk frame, to stay under the 128 KB websocket message limit
+const CHUNK_SIZE = 32 * 1024;
+
+const logger = new Logger();
+const s3 = new S3Client();
+const websocket = new ApiGatewayManagementApiClient({
+  endpoint: WEBSOCKET_ENDPOINT,
+});
+
+/**
+ * Splits the payload in chunks of up to CHUNK_SIZE bytes once they are escaped in the JSON of the frames, without
+ * splitting a character.
+ *
+ * @param {string} payload the payload.
+ * @returns {string[]} the chunks.
+ */
+function splitPayload(payload) {
+  const chunks = [];
+  let start = 0;
+  let end = 0;
+  let size = 0;
+  for (const char of payload) {
+    // The character as it is escaped in the JSON of the frame, without the quotes
+    const charSize = Buffer.byteLength(JSON.stringify(char)) - 2;
+    if (size + charSize > CHUNK_SIZE) {
+      chunks.push(payload.slice(start, end));
+      start = end;
+      size = 0;
+    }
+    end += char.length;
+    size += charSize;
+  }
+  chunks.push(payload.slice(start, end));
+  return chunks;
+}
+
+/**
+ * The handler function to send a message stored at the payloads bucket to a connection.
+ *
+ * The client receives the message with a presigned `payloadUrl` to download the payload, or the payload split in
+ * frames with the `chunk` index and the number of `chunks`, as set by CLAIM_CHECK_DELIVERY. The payload is the JSON
+ * of the message.
+ *
+ * @param {any} event the message body and the connection ID.
+ * @throws {Error} if the message could not be sent, as GoneException if the client is not connected.
+ */
+export async function handler(event) {
+  const { body, connectionId } = event;
+  logger.appendKeys({ messageId: body.messageId, connectionId });
+
+  const envelope = {
+    messageId: body.messageId,
+    sequence: body.sequence,
+    timestamp: body.timestamp,
+    topic: body.topic,
+    contentType: body.contentType,
+    payloadSize: body.payloadSize,
+  };
+
+  const getObject = new GetObjectCommand({
+    Bucket: PAYLOADS_BUCKET,
+    Key: body.payloadKey,
+  });
+
+  if (CLAIM_CHECK_DELIVERY === "url") {
+    const payloadUrl = await getSignedUrl(s3, getObject, {
+      expiresIn: PRESIGNED_URL_TTL_SECONDS,
+    });
+
+    logger.info("Sending the payload URL");
+    await websocket.send(
+      new PostToConnectionCommand({
+        ConnectionId: connectionId,
+        Data: JSON.stringify({ ...envelope, payloadUrl }),
+      }),
+    );
+    return;
+  }
+
+  const response = await s3.send(getObject);
+  const payload = await response.Body.transformToString();
+  const parts = splitPayload(payload);
+  const chunks = parts.length;
+
+  logger.info("Sending the payload chunks", { chunks });
+  for (const [chunk, part] of parts.entries()) {
+    await websocket.send(
+      new PostToConnectionCommand({
+        ConnectionId: connectionId,
+        Data: JSON.stringify({
+          ...envelope,
+          chunk,
+          chunks,
+          payload: part,
+        }),
+      }),
+    );
+  }
+}
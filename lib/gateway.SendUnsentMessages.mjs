@@ -4,27 +4,139 @@
 import { Logger } from "@aws-lambda-powertools/logger";
 import {
   DynamoDBClient,
-  BatchWriteItemCommand,
+  DeleteItemCommand,
+  UpdateItemCommand,
   paginateQuery,
 } from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
 import { SQSClient, SendMessageBatchCommand } from "@aws-sdk/client-sqs";
+import { queuedMessage } from "./shared/messages.mjs";
 
 const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
 const MESSAGES_QUEUE_URL = process.env.MESSAGES_QUEUE_URL;
+const HIGH_PRIORITY_QUEUE_URL = process.env.HIGH_PRIORITY_QUEUE_URL;
+const MESSAGE_STATUS_TABLE = process.env.MESSAGE_STATUS_TABLE;
+const STATUS_TTL_SECONDS = parseInt(process.env.STATUS_TTL_SECONDS);
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.EVENT_SOURCE;
+
+// The lanes to send the unsent messages, the high-priority messages first
+const LANES = [
+  {
+    name: "high",
+    queueUrl: HIGH_PRIORITY_QUEUE_URL,
+    filter: "#priority = :high",
+  },
+  {
+    name: "normal",
+    queueUrl: MESSAGES_QUEUE_URL,
+    filter: "attribute_not_exists(#priority) OR #priority <> :high",
+  },
+];
 
 const logger = new Logger();
 const dynamoDB = new DynamoDBClient();
 const sqs = new SQSClient();
+const eventBridge = new EventBridgeClient();
+
+/**
+ * Records the status of a stored message.
+ *
+ * @param {any} item the message record from the messages table.
+ * @param {string} status the status, `queued` to be sent again, or `expired`.
+ */
+async function setStatus(item, status) {
+  const expiresAt = parseInt(item.expiresAt.N);
+  await dynamoDB.send(
+    new UpdateItemCommand({
+      TableName: MESSAGE_STATUS_TABLE,
+      Key: {
+        messageId: item.messageId,
+        userId: item.userId,
+      },
+      UpdateExpression:
+        "SET #status = :status, createdAt = :createdAt, updatedAt = :updatedAt, expiresAt = :expiresAt, #ttl = :ttl ADD attempts :zero",
+      ExpressionAttributeNames: {
+        "#status": "status",
+        "#ttl": "ttl",
+      },
+      ExpressionAttributeValues: {
+        ":status": { S: status },
+        ":createdAt": item.timestamp,
+        ":updatedAt": { N: `${Date.now()}` },
+        ":expiresAt": item.expiresAt,
+        ":ttl": { N: `${expiresAt + STATUS_TTL_SECONDS}` },
+        ":zero": { N: "0" },
+      },
+    }),
+  );
+}
+
+/**
+ * Removes the expired messages not removed by the TTL yet, recording their status and sending the MessageExpired
+ * events.
+ *
+ * @param {any[]} items the expired message records from the messages table.
+ * @throws {Error} if any event could not be sent, so the messages are processed again.
+ */
+async function discardExpired(items) {
+  const response = await eventBridge.send(
+    new PutEventsCommand({
+      Entries: items.map((item) => ({
+        EventBusName: EVENT_BUS_NAME,
+        Source: EVENT_SOURCE,
+        DetailType: "MessageExpired",
+        Detail: JSON.stringify({
+          messageId: item.messageId.S,
+          userId: item.userId.S,
+          sequence: parseInt(item.sequence.N),
+          topic: item.topic?.S,
+          createdAt: parseInt(item.timestamp.N),
+          expiresAt: parseInt(item.expiresAt.N),
+        }),
+      })),
+    }),
+  );
+
+  if (response.FailedEntryCount > 0) {
+    throw new Error("Failed to send the expired message events");
+  }
+
+  await Promise.all(items.map((item) => setStatus(item, "expired")));
+
+  await Promise.all(
+    items.map((item) =>
+      dynamoDB.send(
+        new DeleteItemCommand({
+          TableName: MESSAGES_TABLE,
+          Key: {
+            userId: item.userId,
+            messageKey: item.messageKey,
+          },
+        }),
+      ),
+    ),
+  );
+}
 
 /**
- * The handler function for the connections stream to send the unsent messages to the messages queue.
+ * The handler function for the connections stream to send the unsent messages to the messages queue when a
+ * connection is made.
+ *
+ * The messages are kept at the table until the client acknowledges them, and the expired ones are removed. The
+ * queued messages have the `connectionId` of the new connection, so they are sent only to it and not again to the
+ * other connections of the user. The high-priority messages are sent first to the high-priority queue.
  *
  * @param {any} event the event object.
  */
 export async function handler(event) {
   for (const ddbEvent of event.Records) {
     const userId = ddbEvent.dynamodb.Keys.userId.S;
-    logger.appendKeys({ userId });
+    const connectionId = ddbEvent.dynamodb.Keys.connectionId.S;
+    logger.appendKeys({ userId, connectionId });
     logger.info("Processing unsent messages for the user");
 
     const paginatorConfig = {
@@ -32,97 +144,95 @@ export async function handler(event) {
       pageSize: 10,
     };
 
-    // Query all messages that were not sent yet for the user.
-    const command = {
-      TableName: MESSAGES_TABLE,
-      KeyConditionExpression: "#userId = :userId",
-      ExpressionAttributeNames: {
-        "#userId": "userId",
-        "#timestamp": "timestamp",
-      },
-      ExpressionAttributeValues: {
-        ":userId": { S: userId },
-      },
-      ProjectionExpression: "#userId,#timestamp,message",
-      ScanIndexForward: true,
-    };
-
-    const paginator = paginateQuery(paginatorConfig, command);
-
-    for await (const page of paginator) {
-      logger.info("Processing page", { count: page.Count });
-      if (page.Count === 0) {
-        continue;
-      }
-
-      const msgCommand = new SendMessageBatchCommand({
-        QueueUrl: MESSAGES_QUEUE_URL,
-        Entries: page.Items.map((item, index) => ({
-          Id: `${index}`,
-          MessageBody: JSON.stringify({
-            userId: item.userId.S,
-            timestamp: parseInt(item.timestamp.N),
-            message: item.message.S,
-          }),
-          MessageDeduplicationId: crypto.randomUUID(),
-          MessageGroupId: userId,
-        })),
-      });
-
-      logger.info("Sending messages to queue");
-      const response = await sqs.send(msgCommand);
-      logger.info("response counts", {
-        Successful: response.Successful?.length ?? 0,
-        Failed: response.Failed?.length ?? 0,
-      });
-
-      if (!response.Successful?.length) {
-        logger.error("No messages were successfully sent to the queue");
-        return {
-          batchItemFailures: [
-            {
-              itemIdentifier: ddbEvent.dynamodb.SequenceNumber,
-            },
-          ],
-        };
-      }
-
-      const input = {
-        RequestItems: {
-          [MESSAGES_TABLE]: response.Successful.map((item) => ({
-            DeleteRequest: {
-              Key: {
-                userId: page.Items[parseInt(item.Id)].userId,
-                timestamp: page.Items[parseInt(item.Id)].timestamp,
-              },
-            },
-          })),
+    for (const lane of LANES) {
+      // Query all messages of the lane that were not sent yet for the user.
+      const command = {
+        TableName: MESSAGES_TABLE,
+        KeyConditionExpression: "#userId = :userId",
+        ExpressionAttributeNames: {
+          "#userId": "userId",
+          "#timestamp": "timestamp",
+          "#sequence": "sequence",
+          "#priority": "priority",
+        },
+        ExpressionAttributeValues: {
+          ":userId": { S: userId },
+          ":high": { S: "high" },
         },
+        FilterExpression: lane.filter,
+        ProjectionExpression:
+          "#userId,messageKey,#timestamp,messageId,#sequence,topic,#priority,message,encryptedMessage,encoding,contentType,payloadKey,payloadSize,expiresAt",
+        ScanIndexForward: true,
       };
 
-      logger.info("Removing successful messages sent from the database");
-      const deleteCommand = new BatchWriteItemCommand(input);
-      const deleteResponse = await dynamoDB.send(deleteCommand);
-
-      if (deleteResponse.UnprocessedItems?.[MESSAGES_TABLE]?.length > 0) {
-        logger.warn("Some messages could not be deleted, may cause duplicates", {
-          unprocessedCount: deleteResponse.UnprocessedItems[MESSAGES_TABLE].length,
+      const paginator = paginateQuery(paginatorConfig, command);
+
+      for await (const page of paginator) {
+        logger.info("Processing page", { count: page.Count });
+        const now = Date.now() / 1000;
+        const expired = page.Items.filter(
+          (item) => parseInt(item.expiresAt.N) <= now,
+        );
+        const unsent = page.Items.filter(
+          (item) => parseInt(item.expiresAt.N) > now,
+        );
+
+        if (expired.length > 0) {
+          logger.info("Discarding expired messages", { count: expired.length });
+          await discardExpired(expired);
+        }
+
+        if (unsent.length === 0) {
+          continue;
+        }
+
+        const msgCommand = new SendMessageBatchCommand({
+          QueueUrl: lane.queueUrl,
+          Entries: unsent.map((item, index) => ({
+            Id: `${index}`,
+            MessageBody: JSON.stringify({
+              userId: item.userId.S,
+              timestamp: parseInt(item.timestamp.N),
+              messageId: item.messageId.S,
+              sequence: parseInt(item.sequence.N),
+              topic: item.topic?.S,
+              priority: item.priority?.S,
+              ...queuedMessage(item),
+              contentType: item.contentType?.S,
+              payloadKey: item.payloadKey?.S,
+              payloadSize: item.payloadSize && parseInt(item.payloadSize.N),
+              expiresAt: parseInt(item.expiresAt.N),
+              connectionId,
+            }),
+            MessageDeduplicationId: crypto.randomUUID(),
+            MessageGroupId: userId,
+          })),
         });
-      }
 
-      if (response.Failed?.length > 0) {
-        // Reporting the first problem to commit the stream.
-        logger.error("failed to send messages to the queue", {
+        // The status is recorded before sending so it doesn't overwrite the status of the delivery.
+        await Promise.all(unsent.map((item) => setStatus(item, "queued")));
+
+        logger.info("Sending messages to queue", { lane: lane.name });
+        const response = await sqs.send(msgCommand);
+        logger.info("response counts", {
           Successful: response.Successful?.length ?? 0,
-          Failed: response.Failed.length,
+          Failed: response.Failed?.length ?? 0,
         });
-        return {
-          batchItemFailures: [
-            {
-              itemIdentifier: ddbEvent.dynamodb.SequenceNumber,
-            },
-          ],
-        };
+
+        if (response.Failed?.length > 0) {
+          // Reporting the first problem to commit the stream.
+          logger.error("failed to send messages to the queue", {
+            Successful: response.Successful?.length ?? 0,
+            Failed: response.Failed.length,
+          });
+          return {
+            batchItemFailures: [
+              {
+                itemIdentifier: ddbEvent.dynamodb.SequenceNumber,
+              },
+            ],
+          };
+        }
       }
     }
   }
@@ -0,0 +1,88 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { Logger } from "@aws-lambda-powertools/logger";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { encryptMessage } from "./shared/crypto.mjs";
+import { getHeader } from "./shared/requests.mjs";
+
+const PAYLOADS_BUCKET = process.env.PAYLOADS_BUCKET;
+const MESSAGES_QUEUE_URL = process.env.MESSAGES_QUEUE_URL;
+const HIGH_PRIORITY_QUEUE_URL = process.env.HIGH_PRIORITY_QUEUE_URL;
+const MESSAGE_TTL_SECONDS = parseInt(process.env.MESSAGE_TTL_SECONDS);
+const CLAIM_CHECK_THRESHOLD = parseInt(process.env.CLAIM_CHECK_THRESHOLD);
+const ENCRYPTION_KEY_ARN = process.env.ENCRYPTION_KEY_ARN;
+
+const logger = new Logger();
+const s3 = new S3Client();
+const sqs = new SQSClient();
+
+/**
+ * The handler function to send a message that can be larger than the queue and the websocket limits.
+ *
+ * A message larger than CLAIM_CHECK_THRESHOLD bytes as JSON is stored at the payloads bucket as JSON, and the queued
+ * message has the `payloadKey` and `payloadSize` instead of the `message`. A smaller message is encrypted when
+ * ENCRYPTION_KEY_ARN is set.
+ *
+ * @param {any} event the API Gateway proxy event with the same payload of the POST /message.
+ * @returns {any} the response with the message ID.
+ */
+export async function handler(event) {
+  const messageId = event.requestContext.requestId;
+  const timestamp = event.requestContext.requestTimeEpoch;
+  const { message, ttlSeconds, expiresAt, idempotencyKey, ...body } =
+    JSON.parse(event.body);
+  logger.appendKeys({ userId: body.userId, messageId });
+
+  const queued = {
+    ...body,
+    timestamp,
+    messageId,
+    expiresAt:
+      expiresAt ??
+      Math.floor(timestamp / 1000) + (ttlSeconds ?? MESSAGE_TTL_SECONDS),
+    idempotencyKey: getHeader(event, "Idempotency-Key") ?? idempotencyKey,
+  };
+
+  const payload = JSON.stringify(message);
+  const payloadSize = Buffer.byteLength(payload);
+  if (payloadSize > CLAIM_CHECK_THRESHOLD) {
+    queued.payloadKey = `${body.userId}/${messageId}`;
+    queued.payloadSize = payloadSize;
+
+    logger.info("Storing the payload", { payloadSize });
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: PAYLOADS_BUCKET,
+        Key: queued.payloadKey,
+        Body: payload,
+        ContentType: "application/json",
+      }),
+    );
+  } else if (ENCRYPTION_KEY_ARN) {
+    queued.encryptedMessage = await encryptMessage(
+      message,
+      messageId,
+      ENCRYPTION_KEY_ARN,
+    );
+  } else {
+    queued.message = message;
+  }
+
+  await sqs.send(
+    new SendMessageCommand({
+      QueueUrl:
+        body.priority === "high" ? HIGH_PRIORITY_QUEUE_URL : MESSAGES_QUEUE_URL,
+      MessageBody: JSON.stringify(queued),
+      MessageDeduplicationId:
+        queued.idempotencyKey ?? event.requestContext.extendedRequestId,
+      MessageGroupId: body.userId,
+    }),
+  );
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ messageId }),
+  };
+}
@@ -4,13 +4,18 @@
 import * as cdk from "aws-cdk-lib";
 import * as apigateway from "aws-cdk-lib/aws-apigateway";
 import * as apigatewayv2 from "aws-cdk-lib/aws-apigatewayv2";
+import * as cognito from "aws-cdk-lib/aws-cognito";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
 import * as eventsources from "aws-cdk-lib/aws-lambda-event-sources";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
 import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as logs from "aws-cdk-lib/aws-logs";
 import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
 import * as pipes from "aws-cdk-lib/aws-pipes";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as scheduler from "aws-cdk-lib/aws-scheduler";
 import * as sfn from "aws-cdk-lib/aws-stepfunctions";
 import * as sqs from "aws-cdk-lib/aws-sqs";
 import { Construct } from "constructs";
@@ -20,9 +25,234 @@ import * as utils from "./utils";
 
 const MESSAGE_PATH = "message";
 
+const MESSAGES_PATH = "messages";
+
+// The maximum number of messages in a batch, as limited by the SQS SendMessageBatch
+const MAX_BATCH_SIZE = 10;
+
+// The idempotency key is used as the SQS Message Deduplication ID, so it has the same constraints
+const IDEMPOTENCY_KEY_PATTERN = "^[!-~]{1,128}$";
+
+// The ISO 8601 timestamp with the time zone to deliver a message later
+const DELIVER_AT_PATTERN =
+  "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:\\d{2})$";
+
+const TOPIC_PATH = "topic";
+
+const BROADCAST_PATH = "broadcast";
+
+const LARGE_MESSAGE_PATH = "large-message";
+
+const PRESENCE_PATH = "presence";
+
+// The maximum number of users of a presence request, as limited by the DynamoDB BatchGetItem
+const MAX_PRESENCE_BATCH_SIZE = 100;
+
+const INBOX_PATH = "inbox";
+
+const INBOX_ACK_PATH = "ack";
+
+// The maximum number of messages of an inbox page or acknowledgement, as limited by the DynamoDB IN operator
+const MAX_INBOX_PAGE_SIZE = 100;
+
+// The maximum time to wait for a message in the inbox, as API Gateway times out after 29 seconds
+const MAX_INBOX_WAIT_SECONDS = 20;
+
+// The priorities of a message, the high-priority messages are sent through their own queue
+const MESSAGE_PRIORITIES = ["high", "normal"];
+
+// A message can be any JSON string, object, or array, with an optional content type
+const MESSAGE_TYPES = [
+  apigateway.JsonSchemaType.STRING,
+  apigateway.JsonSchemaType.OBJECT,
+  apigateway.JsonSchemaType.ARRAY,
+];
+
+// The error of the functions that reject a message larger than the maximum message size, answered with 413
+const MESSAGE_TOO_LARGE_ERROR = "The message is too large";
+
+// API Gateway closes a websocket connection after 2 hours, so older connection records are stale
+const CONNECTION_TTL_SECONDS = 2 * 60 * 60;
+
+// The websocket route for the client to acknowledge a received message
+const ACK_ROUTE = "ack";
+
+// The websocket routes for the client to subscribe and unsubscribe to a topic
+const SUBSCRIBE_ROUTE = "subscribe";
+const UNSUBSCRIBE_ROUTE = "unsubscribe";
+
+// The websocket route for the client to get the messages sent after the last one it received
+const RESUME_ROUTE = "resume";
+
+// The schema of the client frames forwarded upstream by the $default route, and by the custom actions without schema
+const UPSTREAM_FRAME_SCHEMA = {
+  $schema: "http://json-schema.org/draft-04/schema#",
+  type: "object",
+};
+
+// Times to send again a message that wasn't acknowledged before waiting for the user to reconnect
+const MAX_REDELIVERIES = 3;
+
+// Times the gateway tries to send a message from the Messages queue before moving it to the dead-letter queue
+const MAX_RECEIVE_COUNT = 3;
+
+// The time to keep the delivery status of a message after the message expires
+const STATUS_TTL_SECONDS = 24 * 60 * 60;
+
+// The source of the delivery status events
+const EVENT_SOURCE = "async-messaging-gateway";
+
+// The CloudWatch namespace of the gateway metrics
+const METRICS_NAMESPACE = "AsyncMessagingGateway";
+
+// The resources and settings of the Step Functions to send a message to the user
+interface SendMessageSfnProps {
+  // The Messages SQS queue
+  messagesQueue: sqs.IQueue;
+
+  // The SQS queue of the high-priority messages
+  highPriorityQueue: sqs.IQueue;
+
+  // The Messages DynamoDB table
+  messagesTable: dynamodb.ITable;
+
+  // The Connections DynamoDB table
+  connectionsTable: dynamodb.ITable;
+
+  // The Sequences DynamoDB table
+  sequencesTable: dynamodb.ITable;
+
+  // The IdempotencyKeys DynamoDB table
+  idempotencyKeysTable: dynamodb.ITable;
+
+  // The CollapseKeys DynamoDB table
+  collapseKeysTable: dynamodb.ITable;
+
+  // The time to keep the idempotency keys
+  idempotencyTtl: cdk.Duration;
+
+  // The MessageStatus DynamoDB table
+  messageStatusTable: dynamodb.ITable;
+
+  // The History DynamoDB table
+  historyTable: dynamodb.ITable;
+
+  // The time to keep the sent messages at the history
+  historyTtl: cdk.Duration;
+
+  // The maximum number of messages kept at the history of a user
+  maxHistoryMessages: number;
+
+  // The EventBridge bus to send the delivery status events
+  eventBus: events.IEventBus;
+
+  // The queue to check if the delivered messages were acknowledged
+  redeliveryQueue: sqs.IQueue;
+
+  // The bucket with the large message payloads
+  payloadsBucket: s3.IBucket;
+
+  // The Lambda function to send the messages stored at the payloads bucket
+  sendLargeMessageFn: lambda.IFunction;
+
+  // The Lambda function to compress and decompress the messages
+  compressMessageFn: lambda.IFunction;
+
+  // The compression of the stored messages, if any
+  compression: "gzip" | "deflate" | undefined;
+
+  // The Lambda function to decrypt and send the encrypted messages
+  sendEncryptedMessageFn: lambda.IFunction;
+
+  // The KMS key to encrypt the execution logs, if any
+  encryptionKey: kms.IKey | undefined;
+
+  // The maximum number of stored messages of a user, 0 if there is no limit
+  maxBacklogMessages: number;
+
+  // The maximum size of the stored messages of a user, 0 if there is no limit
+  maxBacklogBytes: number;
+
+  // What to do when the backlog of a user is full
+  backlogPolicy: "drop-oldest" | "drop-newest" | "reject";
+
+  // The messages websocket API
+  messagesWebsocket: apigatewayv2.CfnApi;
+
+  // The websocket API stage
+  apiStage: string;
+}
+
 export interface GatewayProps {
   // The Lambda token authorizer to authorize a websocket connection
   tokenAuthorizerFn: lambda.IFunction;
+
+  // The time to wait for the client to acknowledge a message before sending it again (default: 1 minute, max: 15 minutes)
+  ackTimeout?: cdk.Duration;
+
+  // The time to keep an undelivered message when the producer doesn't set its expiration (default: 7 days)
+  messageTtl?: cdk.Duration;
+
+  // The maximum number of connections per second to send a broadcast message (default: 100)
+  broadcastRate?: number;
+
+  // The time to recognise a message sent again with the same idempotency key as a duplicate (default: 1 day)
+  idempotencyTtl?: cdk.Duration;
+
+  // The EventBridge bus to send the delivery status events (default: a new bus)
+  eventBus?: events.IEventBus;
+
+  // The size in bytes of a message sent to POST /large-message to store it at the payloads bucket (default: 64 KB)
+  claimCheckThreshold?: number;
+
+  // How the client gets a stored message: a presigned URL or the payload in chunk frames (default: url)
+  claimCheckDelivery?: "url" | "chunks";
+
+  // The time the presigned URL of a stored message is valid (default: 15 minutes)
+  presignedUrlTtl?: cdk.Duration;
+
+  // The compression of the stored messages and the frames of the clients that support it (default: no compression)
+  compression?: "gzip" | "deflate";
+
+  // The KMS key to encrypt the messages queues, tables, payloads bucket, and workflow logs (default: AWS owned keys)
+  encryptionKey?: kms.IKey;
+
+  // Encrypt the message with the encryptionKey before it is queued, so only its delivery decrypts it (default: false)
+  encryptMessages?: boolean;
+
+  // The maximum number of stored messages of a user, counting the undelivered and unacknowledged (default: no limit)
+  maxBacklogMessages?: number;
+
+  // The maximum size in bytes of the stored messages of a user (default: no limit)
+  maxBacklogBytes?: number;
+
+  // What to do when the backlog of a user is full: drop its oldest messages, drop the new message, or reject it at
+  // POST /message and POST /messages (default: drop-oldest)
+  backlogPolicy?: "drop-oldest" | "drop-newest" | "reject";
+
+  // The websocket actions of the client frames to forward upstream as the $default route, with the JSON schema (draft 4)
+  // of their frames, if any (default: none)
+  upstreamActions?: Record<string, object | undefined>;
+
+  // The SQS queue to forward the client frames to, instead of the event bus (default: the event bus)
+  upstreamQueue?: sqs.IQueue;
+
+  // The maximum size in bytes of a client frame forwarded upstream (default: 32 KB)
+  upstreamMaxSize?: number;
+
+  // The time to keep the sent messages of a user for the clients to resume from their last message (default: 1 hour)
+  historyTtl?: cdk.Duration;
+
+  // The maximum number of messages kept at the history of a user and sent again to a client that resumes, the most
+  // recent (default: 100)
+  maxHistoryMessages?: number;
+
+  // The Cognito User Pool of the users, to add the inbox API for the clients that can't keep a websocket connection
+  // (default: no inbox API)
+  userPool?: cognito.IUserPool;
+
+  // The origins of the browser clients allowed to call the inbox API (default: all origins)
+  inboxAllowedOrigins?: string[];
 }
 
 /**
@@ -35,6 +265,12 @@ export class Gateway extends Construct {
   // The ARN of the websocket authorizer
   public readonly websocketAuthorizerArn: string;
 
+  // URL of the inbox of the clients without a websocket connection, if the userPool is set
+  public readonly inboxUrl?: string;
+
+  // The EventBridge bus with the delivery status events
+  public readonly eventBus: events.IEventBus;
+
   // The send message API
   private readonly messageApi: apigateway.IRestApi;
 
@@ -44,11 +280,78 @@ export class Gateway extends Construct {
   constructor(scope: Construct, id: string, props: GatewayProps) {
     super(scope, id);
 
-    const connectionsTable = this.createConnectionsTable();
+    if (props.encryptMessages && props.encryptionKey === undefined) {
+      throw new Error("The encryptionKey is required to encrypt the messages");
+    }
+
+    for (const action of Object.keys(props.upstreamActions ?? {})) {
+      if (["$connect", "$disconnect", "$default"].includes(action)) {
+        throw new Error(
+          `The websocket action ${action} is a predefined route of the websocket API, and $default already forwards the frames upstream`,
+        );
+      }
+      if (
+        [ACK_ROUTE, SUBSCRIBE_ROUTE, UNSUBSCRIBE_ROUTE, RESUME_ROUTE].includes(
+          action,
+        )
+      ) {
+        throw new Error(`The websocket action ${action} is reserved`);
+      }
+    }
+
+    // The key to encrypt the messages before they are queued, if enabled
+    const messageEncryptionKey = props.encryptMessages
+      ? props.encryptionKey
+      : undefined;
+
+    const maxBacklogMessages = props.maxBacklogMessages ?? 0;
+    const maxBacklogBytes = props.maxBacklogBytes ?? 0;
+    const backlogPolicy = props.backlogPolicy ?? "drop-oldest";
+
+    // The messages are rejected at the API only if the backlog is limited
+    const rejectBacklog =
+      backlogPolicy === "reject" &&
+      (maxBacklogMessages > 0 || maxBacklogBytes > 0);
+
+    const connectionsTable = this.createConnectionsTable(props.encryptionKey);
+
+    const messagesTable = this.createMessagesTable(props.encryptionKey);
+
+    const sequencesTable = this.createSequencesTable(props.encryptionKey);
+
+    const subscriptionsTable = this.createSubscriptionsTable(
+      props.encryptionKey,
+    );
+
+    const idempotencyKeysTable = this.createIdempotencyKeysTable(
+      props.encryptionKey,
+    );
+
+    const collapseKeysTable = this.createCollapseKeysTable(props.encryptionKey);
+
+    const messageStatusTable = this.createMessageStatusTable(
+      props.encryptionKey,
+    );
+
+    const presenceTable = this.createPresenceTable(props.encryptionKey);
+
+    const historyTable = this.createHistoryTable(props.encryptionKey);
+
+    this.eventBus = props.eventBus ?? new events.EventBus(this, "Events");
+
+    const messageTtl = props.messageTtl ?? cdk.Duration.days(7);
+
+    const payloadsBucket = this.createPayloadsBucket(
+      messageTtl,
+      props.encryptionKey,
+    );
 
-    const messagesTable = this.createMessagesTable();
+    const { messagesQueue, highPriorityQueue, messagesDLQ } =
+      this.createMessagesQueue(props.encryptionKey);
 
-    const messagesQueue = this.createMessagesQueue();
+    const redeliveryQueue = this.createRedeliveryQueue(
+      props.ackTimeout ?? cdk.Duration.minutes(1),
+    );
 
     const apiGatewayAccount = this.createApiGatewayAccount();
 
@@ -64,40 +367,225 @@ export class Gateway extends Construct {
       resource: `${messagesWebsocket.ref}/authorizers/${authorizer.ref}`,
     });
 
-    this.createSendMessageSfn(
-      messagesQueue,
-      messagesTable,
+    this.createAckRoute(messagesWebsocket, messagesTable, payloadsBucket);
+
+    const sendLargeMessageFn = this.createSendLargeMessageLambda(
+      payloadsBucket,
+      messagesWebsocket,
+      stage.ref,
+      props.claimCheckDelivery ?? "url",
+      props.presignedUrlTtl ?? cdk.Duration.minutes(15),
+    );
+
+    this.createSubscriptionRoutes(messagesWebsocket, subscriptionsTable);
+
+    const maxHistoryMessages = props.maxHistoryMessages ?? 100;
+    this.createResumeRoute(
+      messagesWebsocket,
+      stage.ref,
+      historyTable,
       connectionsTable,
+      maxHistoryMessages,
+      messageEncryptionKey,
+    );
+
+    this.createUpstreamRoutes(
+      messagesWebsocket,
+      this.eventBus,
+      props.upstreamQueue,
+      props.upstreamActions ?? {},
+      props.upstreamMaxSize ?? 32 * 1024,
+    );
+
+    const compressMessageFn = this.createCompressMessageLambda(
+      props.compression,
+    );
+
+    const sendEncryptedMessageFn = this.createSendEncryptedMessageLambda(
       messagesWebsocket,
       stage.ref,
+      messageEncryptionKey,
     );
 
+    this.createSendMessageSfn({
+      messagesQueue,
+      highPriorityQueue,
+      messagesTable,
+      connectionsTable,
+      sequencesTable,
+      idempotencyKeysTable,
+      collapseKeysTable,
+      idempotencyTtl: props.idempotencyTtl ?? cdk.Duration.days(1),
+      messageStatusTable,
+      historyTable,
+      historyTtl: props.historyTtl ?? cdk.Duration.hours(1),
+      maxHistoryMessages,
+      eventBus: this.eventBus,
+      redeliveryQueue,
+      payloadsBucket,
+      sendLargeMessageFn,
+      compressMessageFn,
+      compression: props.compression,
+      sendEncryptedMessageFn,
+      encryptionKey: props.encryptionKey,
+      maxBacklogMessages,
+      maxBacklogBytes,
+      backlogPolicy,
+      messagesWebsocket,
+      apiStage: stage.ref,
+    });
+
     this.createSendUnsentMessagesLambda(
       messagesTable,
       messagesQueue,
+      highPriorityQueue,
+      connectionsTable,
+      messageStatusTable,
+      this.eventBus,
+    );
+
+    this.createPublishPresenceLambda(
+      connectionsTable,
+      presenceTable,
+      this.eventBus,
+    );
+
+    this.createRedeliverMessagesLambda(
+      redeliveryQueue,
+      messagesTable,
+      messagesQueue,
+      highPriorityQueue,
+      messageStatusTable,
+    );
+
+    const enqueueMessageFn =
+      messageEncryptionKey || rejectBacklog
+        ? this.createEnqueueMessageLambda(
+            messagesQueue,
+            highPriorityQueue,
+            messageTtl,
+            messageEncryptionKey,
+            messagesTable,
+            maxBacklogMessages,
+            maxBacklogBytes,
+            backlogPolicy,
+          )
+        : undefined;
+
+    const messageApi = this.createMessageApi(
+      apiGatewayAccount,
+      messagesQueue,
+      highPriorityQueue,
+      messageTtl,
+      enqueueMessageFn,
+    );
+
+    const publishTopicMessageFn = this.createPublishTopicMessageLambda(
+      subscriptionsTable,
+      messagesQueue,
+      highPriorityQueue,
+      messageEncryptionKey,
+    );
+
+    this.addTopicMessageMethod(messageApi, publishTopicMessageFn, messageTtl);
+
+    this.addMessageStatusMethod(messageApi, messageStatusTable);
+
+    const getPresenceFn = this.createGetPresenceLambda(
+      connectionsTable,
+      presenceTable,
+    );
+
+    this.addPresenceMethods(messageApi, getPresenceFn);
+
+    const storeLargeMessageFn = this.createStoreLargeMessageLambda(
+      payloadsBucket,
+      messagesQueue,
+      highPriorityQueue,
+      messageTtl,
+      props.claimCheckThreshold ?? 64 * 1024,
+      messageEncryptionKey,
+    );
+
+    this.addLargeMessageMethod(messageApi, storeLargeMessageFn);
+
+    const broadcastFn = this.createBroadcastLambda(
       connectionsTable,
+      messagesWebsocket,
+      stage.ref,
+      props.broadcastRate ?? 100,
+      this.eventBus,
     );
 
-    const messageApi = this.createMessageApi(apiGatewayAccount, messagesQueue);
+    this.addBroadcastMethod(messageApi, broadcastFn);
+
+    const redriveDeadLettersFn = this.createRedriveDeadLettersLambda(
+      messagesDLQ,
+      messagesQueue,
+      highPriorityQueue,
+      messagesTable,
+      messageStatusTable,
+      this.eventBus,
+    );
 
     this.messageUrl = `${messageApi.url}message`;
     this.messageApi = messageApi;
 
+    if (props.userPool !== undefined) {
+      const inboxAllowedOrigins =
+        props.inboxAllowedOrigins ?? apigateway.Cors.ALL_ORIGINS;
+      const inboxFn = this.createInboxLambda(
+        messagesTable,
+        messageStatusTable,
+        payloadsBucket,
+        props.presignedUrlTtl ?? cdk.Duration.minutes(15),
+        messageEncryptionKey,
+        inboxAllowedOrigins,
+      );
+
+      const inboxApi = this.createInboxApi(
+        apiGatewayAccount,
+        props.userPool,
+        inboxFn,
+        inboxAllowedOrigins,
+      );
+
+      this.inboxUrl = `${inboxApi.url}${INBOX_PATH}`;
+
+      new cdk.CfnOutput(this, "InboxUrl", {
+        value: this.inboxUrl,
+      });
+    }
+
     new cdk.CfnOutput(this, "WebsocketUrl", {
       value: `${messagesWebsocket.attrApiEndpoint}/${stage.ref}`,
     });
+
+    new cdk.CfnOutput(this, "DeadLetterQueueUrl", {
+      value: messagesDLQ.queueUrl,
+    });
+
+    new cdk.CfnOutput(this, "RedriveDeadLettersFunctionName", {
+      value: redriveDeadLettersFn.functionName,
+    });
   }
 
   /**
    * Creates the Connections table.
    *
-   * The records has the following properties:
+   * A user can be connected from several devices at the same time, so each connection is a
+   * record. The records have the following properties:
    * - userId {PK, string}: the user ID from the Cognito User Pool.
-   * - connectionId {string}: the WebSocket connection ID.
+   * - connectionId {SK, string}: the WebSocket connection ID.
+   * - ttl {number}: the epoch in seconds to remove the record if the disconnection is never received.
+   * - compression {string}: the comma-separated encodings the client supports, from the `compression` query parameter.
    *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
    * @returns the table reference.
    */
-  private createConnectionsTable(): dynamodb.ITable {
+  private createConnectionsTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
     let removalPolicy;
     if (this.node.tryGetContext("destroy-all")) {
       removalPolicy = cdk.RemovalPolicy.DESTROY;
@@ -105,8 +593,14 @@ export class Gateway extends Construct {
 
     const connectionsTable = new dynamodb.Table(this, "Connections", {
       partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "connectionId", type: dynamodb.AttributeType.STRING },
       stream: dynamodb.StreamViewType.NEW_IMAGE,
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      timeToLiveAttribute: "ttl",
       removalPolicy,
     });
 
@@ -125,12 +619,28 @@ export class Gateway extends Construct {
    *
    * The records have the following properties:
    * - userId {PK, string}: the user ID from the Cognito User Pool.
-   * - timestamp {SK, number}: the timestamp of the message when the gateway received it for the first time.
-   * - message {string}: the message to send.
+   * - messageKey {SK, string}: the timestamp padded to 13 digits and the message ID (`<timestamp>#<messageId>`), so the
+   *   messages received in the same millisecond don't overwrite each other and are kept in order.
+   * - timestamp {number}: the timestamp of the message when the gateway received it for the first time.
+   * - messageId {string}: the message ID.
+   * - sequence {number}: the sequence number of the message for the user.
+   * - topic {string}: the topic the message was published to, if any.
+   * - priority {string}: the priority of the message, to send it again through its queue, if any.
+   * - message {any|binary}: the message to send, compressed if it has the encoding.
+   * - encoding {string}: the compression of the message (gzip or deflate), if any.
+   * - encryptedMessage {map}: the message encrypted with a data key instead, when the messages are encrypted.
+   * - messageSize {number}: the size in bytes of the message JSON, or of the stored payload, to limit the backlog of the
+   *   user.
+   * - expiresAt {number}: the epoch in seconds to remove the message if it is not delivered.
+   *
+   * The messages are kept until the client acknowledges them or they expire.
    *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
    * @returns the table reference.
    */
-  private createMessagesTable(): dynamodb.ITable {
+  private createMessagesTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
     let removalPolicy;
     if (this.node.tryGetContext("destroy-all")) {
       removalPolicy = cdk.RemovalPolicy.DESTROY;
@@ -138,8 +648,13 @@ export class Gateway extends Construct {
 
     const messagesTable = new dynamodb.Table(this, "Messages", {
       partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
-      sortKey: { name: "timestamp", type: dynamodb.AttributeType.NUMBER },
+      sortKey: { name: "messageKey", type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      timeToLiveAttribute: "expiresAt",
       removalPolicy,
     });
 
@@ -147,7 +662,7 @@ export class Gateway extends Construct {
       {
         id: "AwsSolutions-DDB3",
         reason:
-          "The table holds temporary messages that are deleted after delivery, so PITR is not needed.",
+          "The table holds temporary messages that are deleted after acknowledgement, so PITR is not needed.",
       },
     ]);
 
@@ -155,111 +670,471 @@ export class Gateway extends Construct {
   }
 
   /**
-   * Creates the FIFO queue with the messages to send.
+   * Creates the Sequences table.
    *
-   * The messages have the following body:
-   * - userId {string}: the user ID from the Cognito User Pool.
-   * - timestamp {number}: the timestamp of the message when the gateway received it for the first time.
-   * - message {string}: the message to send.
-   *
-   * The Message Group ID is the userId to keep the messages ordered.
-   *
-   * In each try, a new Message Deduplication ID is created so it can retry to send the message as soon as the client is connected.
+   * The records have the following properties:
+   * - userId {PK, string}: the user ID from the Cognito User Pool.
+   * - sequence {number}: the sequence number of the last message sent to the user.
    *
-   * @returns the SQS FIFO queue reference.
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
    */
-  private createMessagesQueue(): sqs.IQueue {
-    const messagesDLQ = new sqs.Queue(this, "MessagesDeadLetterQueue", {
-      fifo: true,
-      enforceSSL: true,
+  private createSequencesTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const sequencesTable = new dynamodb.Table(this, "Sequences", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
       removalPolicy: utils.getRemovalPolicy(this.node),
     });
 
-    const messagesQueue = new sqs.Queue(this, "MessagesQueue", {
-      fifo: true,
-      enforceSSL: true,
-      deadLetterQueue: {
-        maxReceiveCount: 3,
-        queue: messagesDLQ,
+    NagSuppressions.addResourceSuppressions(sequencesTable, [
+      {
+        id: "AwsSolutions-DDB3",
+        reason:
+          "The table holds only counters for the clients to detect missing messages, so PITR is not needed.",
       },
-      removalPolicy: utils.getRemovalPolicy(this.node),
-    });
+    ]);
 
-    return messagesQueue;
+    return sequencesTable;
   }
 
   /**
-   * Creates the API Gateway Account with permission to push to CloudWatch Logs.
+   * Creates the Subscriptions table.
    *
-   * @returns reference to the API Gateway account.
+   * The records have the following properties:
+   * - topic {PK, string}: the topic name.
+   * - userId {SK, string}: the user ID from the Cognito User Pool of the subscriber.
+   *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
    */
-  private createApiGatewayAccount(): apigateway.CfnAccount {
-    const role = new iam.Role(this, "CloudWatchRole", {
-      assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+  private createSubscriptionsTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const subscriptionsTable = new dynamodb.Table(this, "Subscriptions", {
+      partitionKey: { name: "topic", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      removalPolicy: utils.getRemovalPolicy(this.node),
     });
 
-    role.addManagedPolicy(
-      iam.ManagedPolicy.fromAwsManagedPolicyName(
-        "service-role/AmazonAPIGatewayPushToCloudWatchLogs",
-      ),
-    );
-
-    NagSuppressions.addResourceSuppressions(role, [
+    NagSuppressions.addResourceSuppressions(subscriptionsTable, [
       {
-        id: "AwsSolutions-IAM4",
+        id: "AwsSolutions-DDB3",
         reason:
-          "As the API Gateway CloudWatch role is a singleton, it needs the managed policy to share the same role to all API Gateways.",
+          "The users can subscribe again to the topics, so PITR is not needed.",
       },
     ]);
 
-    const apiGatewayAccount = new apigateway.CfnAccount(this, "Account", {
-      cloudWatchRoleArn: role.roleArn,
-    });
-
-    return apiGatewayAccount;
+    return subscriptionsTable;
   }
 
   /**
-   * Creates the messages websocket.
+   * Creates the IdempotencyKeys table.
    *
-   * @param apiGatewayAccount the API Gateway account.
-   * @param authorizerFn the Lambda authorizer function that authorizes websocket connections.
-   * @param connectionsTable the Connections table.
-   * @returns details of the websocket API.
+   * The records have the following properties:
+   * - userId {PK, string}: the user ID from the Cognito User Pool.
+   * - idempotencyKey {SK, string}: the idempotency key set by the producer.
+   * - messageId {string}: the ID of the first message sent with the key.
+   * - expiresAt {number}: the epoch in seconds to remove the key.
+   *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
    */
-  private createMessagesWebsocket(
-    apiGatewayAccount: apigateway.CfnAccount,
-    authorizerFn: lambda.IFunction,
-    connectionsTable: dynamodb.ITable,
-  ): {
-    messagesWebsocket: apigatewayv2.CfnApi;
-    stage: apigatewayv2.CfnStage;
-    authorizer: apigatewayv2.CfnAuthorizer;
-  } {
-    const messagesWebsocket = new apigatewayv2.CfnApi(this, "Websocket", {
-      name: "MessagesWebsocket",
-      protocolType: "WEBSOCKET",
-      routeSelectionExpression: "$request.body.action",
+  private createIdempotencyKeysTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const idempotencyKeysTable = new dynamodb.Table(this, "IdempotencyKeys", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "idempotencyKey", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: utils.getRemovalPolicy(this.node),
     });
 
-    messagesWebsocket.node.addDependency(apiGatewayAccount);
-
-    const connectionsIntegrationRole = new iam.Role(
-      this,
-      "ConnectionsIntegrationRole",
+    NagSuppressions.addResourceSuppressions(idempotencyKeysTable, [
       {
-        assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+        id: "AwsSolutions-DDB3",
+        reason:
+          "The table holds temporary keys to discard repeated messages, so PITR is not needed.",
       },
-    );
+    ]);
 
-    connectionsIntegrationRole.addToPolicy(
-      new iam.PolicyStatement({
+    return idempotencyKeysTable;
+  }
+
+  /**
+   * Creates the CollapseKeys table.
+   *
+   * The records have the following properties:
+   * - userId {PK, string}: the user ID from the Cognito User Pool.
+   * - collapseKey {SK, string}: the collapse key set by the producer.
+   * - timestamp {number}: the timestamp of the latest message stored with the key.
+   * - messageKey {string}: the sort key of the latest message stored with the key at the Messages table.
+   * - messageId {string}: the ID of the latest message stored with the key.
+   * - expiresAt {number}: the epoch in seconds to remove the key, when the message expires.
+   *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
+   */
+  private createCollapseKeysTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const collapseKeysTable = new dynamodb.Table(this, "CollapseKeys", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "collapseKey", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    NagSuppressions.addResourceSuppressions(collapseKeysTable, [
+      {
+        id: "AwsSolutions-DDB3",
+        reason:
+          "The table holds references to messages kept until they expire, so PITR is not needed.",
+      },
+    ]);
+
+    return collapseKeysTable;
+  }
+
+  /**
+   * Creates the MessageStatus table.
+   *
+   * The records have the following properties:
+   * - messageId {PK, string}: the message ID.
+   * - userId {SK, string}: the user ID from the Cognito User Pool of the recipient.
+   * - status {string}: scheduled, queued, delivered, pending-offline, expired, dropped, duplicate, collapsed, replaced,
+   *   or dead-lettered.
+   * - originalMessageId {string}: the ID of the message sent before with the same idempotency key, if duplicate.
+   * - replacedBy {string}: the ID of the message with the same collapse key that replaced it, if replaced.
+   * - attempts {number}: the number of times the gateway tried to send the message to the user's connections.
+   * - createdAt {number}: the timestamp of the message when the gateway received it.
+   * - updatedAt {number}: the timestamp of the last status change.
+   * - expiresAt {number}: the epoch in seconds when the message expires.
+   * - ttl {number}: the epoch in seconds to remove the record, a day after the message expires.
+   *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
+   */
+  private createMessageStatusTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const messageStatusTable = new dynamodb.Table(this, "MessageStatus", {
+      partitionKey: { name: "messageId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      timeToLiveAttribute: "ttl",
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    NagSuppressions.addResourceSuppressions(messageStatusTable, [
+      {
+        id: "AwsSolutions-DDB3",
+        reason:
+          "The table holds temporary statuses for the producers, so PITR is not needed.",
+      },
+    ]);
+
+    return messageStatusTable;
+  }
+
+  /**
+   * Creates the Presence table.
+   *
+   * The records have the following properties:
+   * - userId {PK, string}: the user ID from the Cognito User Pool.
+   * - lastSeenAt {number}: the last time in milliseconds since epoch the user connected or disconnected.
+   *
+   * The records are kept after the user disconnects, so the last seen time of an offline user is known.
+   *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
+   */
+  private createPresenceTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const presenceTable = new dynamodb.Table(this, "Presence", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    NagSuppressions.addResourceSuppressions(presenceTable, [
+      {
+        id: "AwsSolutions-DDB3",
+        reason:
+          "The table holds the last seen time of the users, rebuilt as they connect, so PITR is not needed.",
+      },
+    ]);
+
+    return presenceTable;
+  }
+
+  /**
+   * Creates the History table.
+   *
+   * The records have the following properties of the sent messages, as they are stored at the Messages table:
+   * - userId {PK, string}: the user ID from the Cognito User Pool.
+   * - sequence {SK, number}: the sequence number of the message for the user.
+   * - timestamp {number}: the timestamp of the message when the gateway received it for the first time.
+   * - messageId {string}: the message ID.
+   * - topic {string}: the topic the message was published to, if any.
+   * - message {any|binary}: the message, compressed if it has the encoding.
+   * - encoding {string}: the compression of the message (gzip or deflate), if any.
+   * - encryptedMessage {map}: the message encrypted with a data key instead, when the messages are encrypted.
+   * - contentType {string}: the content type of the message, if any.
+   * - ttl {number}: the epoch in seconds to remove the record, after the history TTL or when the message expires.
+   *
+   * The large messages are not kept, since their payloads are removed when they are acknowledged.
+   *
+   * @param encryptionKey the KMS key to encrypt the table, if any.
+   * @returns the table reference.
+   */
+  private createHistoryTable(
+    encryptionKey: kms.IKey | undefined,
+  ): dynamodb.ITable {
+    const historyTable = new dynamodb.Table(this, "History", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "sequence", type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: encryptionKey
+        ? dynamodb.TableEncryption.CUSTOMER_MANAGED
+        : undefined,
+      encryptionKey,
+      timeToLiveAttribute: "ttl",
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    NagSuppressions.addResourceSuppressions(historyTable, [
+      {
+        id: "AwsSolutions-DDB3",
+        reason:
+          "The table holds copies of the recent messages for a short time, so PITR is not needed.",
+      },
+    ]);
+
+    return historyTable;
+  }
+
+  /**
+   * Creates the bucket to store the payloads of the large messages (claim check).
+   *
+   * The payloads are removed when the client acknowledges the message, or after the default message TTL and a day
+   * if it is never acknowledged.
+   *
+   * @param messageTtl the time to keep a message when the producer doesn't set its expiration.
+   * @param encryptionKey the KMS key to encrypt the payloads, if any.
+   * @returns the bucket reference.
+   */
+  private createPayloadsBucket(
+    messageTtl: cdk.Duration,
+    encryptionKey: kms.IKey | undefined,
+  ): s3.IBucket {
+    const payloadsBucket = new s3.Bucket(this, "Payloads", {
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: encryptionKey
+        ? s3.BucketEncryption.KMS
+        : s3.BucketEncryption.S3_MANAGED,
+      encryptionKey,
+      enforceSSL: true,
+      lifecycleRules: [
+        {
+          expiration: messageTtl.plus(cdk.Duration.days(1)),
+        },
+      ],
+      removalPolicy: utils.getRemovalPolicy(this.node),
+      autoDeleteObjects:
+        utils.getRemovalPolicy(this.node) === cdk.RemovalPolicy.DESTROY,
+    });
+
+    NagSuppressions.addResourceSuppressions(payloadsBucket, [
+      {
+        id: "AwsSolutions-S1",
+        reason:
+          "The bucket holds temporary payloads accessed by the gateway only, so access logs are not needed.",
+      },
+    ]);
+
+    return payloadsBucket;
+  }
+
+  /**
+   * Creates the FIFO queues with the messages to send, the high-priority messages have their own queue so they are not
+   * held behind the other messages.
+   *
+   * The messages have the following body:
+   * - userId {string}: the user ID from the Cognito User Pool.
+   * - timestamp {number}: the timestamp of the message when the gateway received it for the first time.
+   * - messageId {string}: the message ID.
+   * - sequence {number}: the sequence number of the message for the user, once it is assigned.
+   * - topic {string}: the topic the message was published to, if any.
+   * - message {string}: the message to send.
+   * - compressedMessage {string}: the base64 of the compressed message instead, when it is sent again.
+   * - encoding {string}: the compression of the compressedMessage (gzip or deflate).
+   * - encryptedMessage {object}: the message encrypted with a data key instead, when the messages are encrypted.
+   * - expiresAt {number}: the epoch in seconds when the message expires.
+   * - attempt {number}: the number of redeliveries of a message that was not acknowledged, if any.
+   * - connectionId {string}: the only connection to send the message to, when it is sent again to a new connection.
+   * - idempotencyKey {string}: the idempotency key set by the producer, if any.
+   * - priority {string}: the priority of the message (high or normal), if set by the producer.
+   * - collapseKey {string}: the key to replace the older stored message of the user with the same key, if any.
+   * - deliverAt {string}: the ISO timestamp to deliver the message, if set by the producer.
+   * - delaySeconds {number}: the time in seconds after it was received to deliver the message, if set by the producer.
+   *
+   * A message to deliver later is held at a schedule that sends it again without deliverAt and delaySeconds when it is
+   * due, so it is ordered with the messages of the user from then on.
+   *
+   * The Message Group ID is the userId to keep the messages ordered, and the deduplication is scoped to it so
+   * the producers' idempotency keys of different users don't collide. The Message Deduplication ID is the idempotency
+   * key, or the API request ID without it, so SQS discards a message sent again with the same key in 5 minutes, and
+   * the SendMessage Step Functions discards it afterwards.
+   *
+   * In each try, a new Message Deduplication ID is created so it can retry to send the message as soon as the client is connected.
+   *
+   * @param encryptionKey the KMS key to encrypt the queues, if any.
+   * @returns the SQS FIFO queues and their dead-letter queue references.
+   */
+  private createMessagesQueue(encryptionKey: kms.IKey | undefined): {
+    messagesQueue: sqs.IQueue;
+    highPriorityQueue: sqs.IQueue;
+    messagesDLQ: sqs.IQueue;
+  } {
+    const messagesDLQ = new sqs.Queue(this, "MessagesDeadLetterQueue", {
+      fifo: true,
+      enforceSSL: true,
+      encryption: encryptionKey ? sqs.QueueEncryption.KMS : undefined,
+      encryptionMasterKey: encryptionKey,
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    const messagesQueue = new sqs.Queue(this, "MessagesQueue", {
+      fifo: true,
+      deduplicationScope: sqs.DeduplicationScope.MESSAGE_GROUP,
+      enforceSSL: true,
+      encryption: encryptionKey ? sqs.QueueEncryption.KMS : undefined,
+      encryptionMasterKey: encryptionKey,
+      deadLetterQueue: {
+        maxReceiveCount: MAX_RECEIVE_COUNT,
+        queue: messagesDLQ,
+      },
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    const highPriorityQueue = new sqs.Queue(this, "HighPriorityMessagesQueue", {
+      fifo: true,
+      deduplicationScope: sqs.DeduplicationScope.MESSAGE_GROUP,
+      enforceSSL: true,
+      encryption: encryptionKey ? sqs.QueueEncryption.KMS : undefined,
+      encryptionMasterKey: encryptionKey,
+      deadLetterQueue: {
+        maxReceiveCount: MAX_RECEIVE_COUNT,
+        queue: messagesDLQ,
+      },
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    return { messagesQueue, highPriorityQueue, messagesDLQ };
+  }
+
+  /**
+   * Creates the API Gateway Account with permission to push to CloudWatch Logs.
+   *
+   * @returns reference to the API Gateway account.
+   */
+  private createApiGatewayAccount(): apigateway.CfnAccount {
+    const role = new iam.Role(this, "CloudWatchRole", {
+      assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+    });
+
+    role.addManagedPolicy(
+      iam.ManagedPolicy.fromAwsManagedPolicyName(
+        "service-role/AmazonAPIGatewayPushToCloudWatchLogs",
+      ),
+    );
+
+    NagSuppressions.addResourceSuppressions(role, [
+      {
+        id: "AwsSolutions-IAM4",
+        reason:
+          "As the API Gateway CloudWatch role is a singleton, it needs the managed policy to share the same role to all API Gateways.",
+      },
+    ]);
+
+    const apiGatewayAccount = new apigateway.CfnAccount(this, "Account", {
+      cloudWatchRoleArn: role.roleArn,
+    });
+
+    return apiGatewayAccount;
+  }
+
+  /**
+   * Creates the messages websocket.
+   *
+   * @param apiGatewayAccount the API Gateway account.
+   * @param authorizerFn the Lambda authorizer function that authorizes websocket connections.
+   * @param connectionsTable the Connections table.
+   * @returns details of the websocket API.
+   */
+  private createMessagesWebsocket(
+    apiGatewayAccount: apigateway.CfnAccount,
+    authorizerFn: lambda.IFunction,
+    connectionsTable: dynamodb.ITable,
+  ): {
+    messagesWebsocket: apigatewayv2.CfnApi;
+    stage: apigatewayv2.CfnStage;
+    authorizer: apigatewayv2.CfnAuthorizer;
+  } {
+    const messagesWebsocket = new apigatewayv2.CfnApi(this, "Websocket", {
+      name: "MessagesWebsocket",
+      protocolType: "WEBSOCKET",
+      routeSelectionExpression: "$request.body.action",
+    });
+
+    messagesWebsocket.node.addDependency(apiGatewayAccount);
+
+    const connectionsIntegrationRole = new iam.Role(
+      this,
+      "ConnectionsIntegrationRole",
+      {
+        assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+      },
+    );
+
+    connectionsIntegrationRole.addToPolicy(
+      new iam.PolicyStatement({
         resources: [connectionsTable.tableArn],
-        actions: ["dynamodb:PutItem"],
+        actions: ["dynamodb:PutItem", "dynamodb:DeleteItem"],
       }),
     );
 
-    // Integration with the DynamoDB to store the connection ID of the connected user.
+    // Integration with the DynamoDB to add the connection ID to the connections of the user.
     const connectionsIntegration = new apigatewayv2.CfnIntegration(
       this,
       "ConnectionsIntegration",
@@ -274,9 +1149,53 @@ export class Gateway extends Construct {
         credentialsArn: connectionsIntegrationRole.roleArn,
         integrationMethod: "POST",
         passthroughBehavior: "NEVER",
+        requestTemplates: {
+          $default:
+            `#set($ttl = $context.requestTimeEpoch / 1000 + ${CONNECTION_TTL_SECONDS})\n` +
+            `#set($compression = $util.escapeJavaScript($input.params('compression')))\n` +
+            JSON.stringify({
+              Item: {
+                userId: { S: "$context.authorizer.principalId" },
+                connectionId: { S: "$context.connectionId" },
+                ttl: { N: "$ttl" },
+                compression: { S: "$compression" },
+              },
+              TableName: connectionsTable.tableName,
+            }),
+        },
+        templateSelectionExpression: "\\$default",
+      },
+    );
+
+    new apigatewayv2.CfnIntegrationResponse(
+      this,
+      "ConnectionsIntegrationResponse",
+      {
+        apiId: messagesWebsocket.ref,
+        integrationId: connectionsIntegration.ref,
+        integrationResponseKey: "/200/",
+      },
+    );
+
+    // Integration with the DynamoDB to remove the connection ID of the disconnected user. The connection may already
+    // be removed by the TTL, so the removal is unconditional.
+    const disconnectIntegration = new apigatewayv2.CfnIntegration(
+      this,
+      "DisconnectIntegration",
+      {
+        apiId: messagesWebsocket.ref,
+        integrationType: "AWS",
+        integrationUri: cdk.Stack.of(connectionsTable).formatArn({
+          service: "apigateway",
+          account: "dynamodb",
+          resource: "action/DeleteItem",
+        }),
+        credentialsArn: connectionsIntegrationRole.roleArn,
+        integrationMethod: "POST",
+        passthroughBehavior: "NEVER",
         requestTemplates: {
           $default: JSON.stringify({
-            Item: {
+            Key: {
               userId: { S: "$context.authorizer.principalId" },
               connectionId: { S: "$context.connectionId" },
             },
@@ -289,14 +1208,23 @@ export class Gateway extends Construct {
 
     new apigatewayv2.CfnIntegrationResponse(
       this,
-      "ConnectionsIntegrationResponse",
+      "DisconnectIntegrationResponse",
       {
         apiId: messagesWebsocket.ref,
-        integrationId: connectionsIntegration.ref,
+        integrationId: disconnectIntegration.ref,
         integrationResponseKey: "/200/",
       },
     );
 
+    const disconnectRoute = new apigatewayv2.CfnRoute(this, "DisconnectRoute", {
+      apiId: messagesWebsocket.ref,
+      routeKey: "$disconnect",
+      target: `integrations/${disconnectIntegration.ref}`,
+      authorizationType: "NONE",
+    });
+
+    this.suppressRouteAuthorization(disconnectRoute);
+
     const authorizer = new apigatewayv2.CfnAuthorizer(this, "TokenAuthorizer", {
       apiId: messagesWebsocket.ref,
       authorizerType: "REQUEST",
@@ -349,31 +1277,433 @@ export class Gateway extends Construct {
   }
 
   /**
-   * Create the Step Functions to send a message to the user.
+   * Creates the websocket route for the client to acknowledge a received message.
    *
-   * @param messagesQueue the Messages SQS queue.
+   * The client sends `{"action": "ack", "messageId": "<message ID>"}` and the message is removed from the
+   * Messages table, otherwise it is sent again.
+   *
+   * @param messagesWebsocket the messages websocket.
    * @param messagesTable the Messages DynamoDB table.
-   * @param connectionsTable the Connections DynamoDB table.
-   * @param apiId the websocket API.
-   * @param apiStage the websocket API stage.
-   * @returns the Step Functions reference.
+   * @param payloadsBucket the bucket with the large message payloads.
    */
-  private createSendMessageSfn(
-    messagesQueue: sqs.IQueue,
-    messagesTable: dynamodb.ITable,
-    connectionsTable: dynamodb.ITable,
+  private createAckRoute(
     messagesWebsocket: apigatewayv2.CfnApi,
-    apiStage: string,
-  ): sfn.IStateMachine {
-    const sendMessageSfnRole = new iam.Role(this, "SendMessageSfnRole", {
-      assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+    messagesTable: dynamodb.ITable,
+    payloadsBucket: s3.IBucket,
+  ) {
+    const lambdaFn = this.createFunction("AckMessage", "ack-message", {
+      MESSAGES_TABLE: messagesTable.tableName,
+      PAYLOADS_BUCKET: payloadsBucket.bucketName,
     });
-    messagesTable.grantReadWriteData(sendMessageSfnRole);
-    connectionsTable.grantReadData(sendMessageSfnRole);
 
-    sendMessageSfnRole.addToPolicy(
-      new iam.PolicyStatement({
-        actions: ["execute-api:ManageConnections"],
+    messagesTable.grantReadWriteData(lambdaFn);
+    payloadsBucket.grantDelete(lambdaFn);
+
+    lambdaFn.addPermission("WebsocketInvokePermission", {
+      principal: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+      action: "lambda:InvokeFunction",
+      sourceArn: cdk.Stack.of(messagesWebsocket).formatArn({
+        service: "execute-api",
+        resource: `${messagesWebsocket.ref}/*/${ACK_ROUTE}`,
+      }),
+    });
+
+    const ackIntegration = new apigatewayv2.CfnIntegration(
+      this,
+      "AckIntegration",
+      {
+        apiId: messagesWebsocket.ref,
+        integrationType: "AWS_PROXY",
+        integrationUri: cdk.Stack.of(lambdaFn).formatArn({
+          service: "apigateway",
+          account: "lambda",
+          resource: `path/2015-03-31/functions/${lambdaFn.functionArn}/invocations`,
+        }),
+      },
+    );
+
+    const ackRoute = new apigatewayv2.CfnRoute(this, "AckRoute", {
+      apiId: messagesWebsocket.ref,
+      routeKey: ACK_ROUTE,
+      target: `integrations/${ackIntegration.ref}`,
+      authorizationType: "NONE",
+    });
+
+    this.suppressRouteAuthorization(ackRoute);
+  }
+
+  /**
+   * Creates the websocket routes for the client to subscribe and unsubscribe to a topic.
+   *
+   * The client sends `{"action": "subscribe", "topic": "<topic>"}` or `{"action": "unsubscribe", "topic": "<topic>"}`.
+   * The subscription is of the user, so the messages published to the topic are sent to all the user's connections
+   * and they are kept while the user is offline.
+   *
+   * @param messagesWebsocket the messages websocket.
+   * @param subscriptionsTable the Subscriptions DynamoDB table.
+   */
+  private createSubscriptionRoutes(
+    messagesWebsocket: apigatewayv2.CfnApi,
+    subscriptionsTable: dynamodb.ITable,
+  ) {
+    const subscriptionsIntegrationRole = new iam.Role(
+      this,
+      "SubscriptionsIntegrationRole",
+      {
+        assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+      },
+    );
+
+    subscriptionsIntegrationRole.addToPolicy(
+      new iam.PolicyStatement({
+        resources: [subscriptionsTable.tableArn],
+        actions: ["dynamodb:PutItem", "dynamodb:DeleteItem"],
+      }),
+    );
+
+    const key = {
+      topic: { S: "$util.escapeJavaScript($input.path('$.topic'))" },
+      userId: { S: "$context.authorizer.principalId" },
+    };
+
+    const routes = [
+      {
+        id: "Subscribe",
+        routeKey: SUBSCRIBE_ROUTE,
+        action: "PutItem",
+        template: { Item: key, TableName: subscriptionsTable.tableName },
+      },
+      {
+        id: "Unsubscribe",
+        routeKey: UNSUBSCRIBE_ROUTE,
+        action: "DeleteItem",
+        template: { Key: key, TableName: subscriptionsTable.tableName },
+      },
+    ];
+
+    for (const { id, routeKey, action, template } of routes) {
+      const integration = new apigatewayv2.CfnIntegration(
+        this,
+        `${id}Integration`,
+        {
+          apiId: messagesWebsocket.ref,
+          integrationType: "AWS",
+          integrationUri: cdk.Stack.of(subscriptionsTable).formatArn({
+            service: "apigateway",
+            account: "dynamodb",
+            resource: `action/${action}`,
+          }),
+          credentialsArn: subscriptionsIntegrationRole.roleArn,
+          integrationMethod: "POST",
+          passthroughBehavior: "NEVER",
+          requestTemplates: {
+            $default: JSON.stringify(template),
+          },
+          templateSelectionExpression: "\\$default",
+        },
+      );
+
+      const route = new apigatewayv2.CfnRoute(this, `${id}Route`, {
+        apiId: messagesWebsocket.ref,
+        routeKey,
+        target: `integrations/${integration.ref}`,
+        authorizationType: "NONE",
+      });
+
+      this.suppressRouteAuthorization(route);
+    }
+  }
+
+  /**
+   * Creates the websocket route for the client to get the messages sent after the last one it received.
+   *
+   * The client sends `{"action": "resume", "sequence": <sequence>}` or `{"action": "resume", "messageId": "<message
+   * ID>"}` with its last received message, or `{"action": "resume"}` to get all the history. The messages are sent
+   * again in order to the connection, and the client receives `{"resumed": <count>, "truncated": <boolean>}` once
+   * they are sent.
+   *
+   * @param messagesWebsocket the messages websocket.
+   * @param apiStage the websocket API stage.
+   * @param historyTable the History DynamoDB table.
+   * @param connectionsTable the Connections DynamoDB table.
+   * @param maxHistoryMessages the maximum number of messages sent again.
+   * @param messageEncryptionKey the KMS key of the encrypted messages, if they are encrypted.
+   */
+  private createResumeRoute(
+    messagesWebsocket: apigatewayv2.CfnApi,
+    apiStage: string,
+    historyTable: dynamodb.ITable,
+    connectionsTable: dynamodb.ITable,
+    maxHistoryMessages: number,
+    messageEncryptionKey: kms.IKey | undefined,
+  ) {
+    const lambdaFn = this.createFunction("ResumeMessages", "resume-messages", {
+      HISTORY_TABLE: historyTable.tableName,
+      CONNECTIONS_TABLE: connectionsTable.tableName,
+      MAX_HISTORY_MESSAGES: `${maxHistoryMessages}`,
+      WEBSOCKET_ENDPOINT: `https://${messagesWebsocket.attrApiId}.execute-api.${
+        cdk.Stack.of(this).region
+      }.amazonaws.com/${apiStage}`,
+    });
+
+    historyTable.grantReadData(lambdaFn);
+    connectionsTable.grantReadData(lambdaFn);
+    messageEncryptionKey?.grantDecrypt(lambdaFn);
+
+    lambdaFn.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["execute-api:ManageConnections"],
+        resources: [
+          cdk.Stack.of(messagesWebsocket).formatArn({
+            service: "execute-api",
+            resource: `${messagesWebsocket.attrApiId}/${apiStage}/POST/@connections/*`,
+          }),
+        ],
+      }),
+    );
+
+    lambdaFn.addPermission("WebsocketInvokePermission", {
+      principal: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+      action: "lambda:InvokeFunction",
+      sourceArn: cdk.Stack.of(messagesWebsocket).formatArn({
+        service: "execute-api",
+        resource: `${messagesWebsocket.ref}/*/${RESUME_ROUTE}`,
+      }),
+    });
+
+    const resumeIntegration = new apigatewayv2.CfnIntegration(
+      this,
+      "ResumeIntegration",
+      {
+        apiId: messagesWebsocket.ref,
+        integrationType: "AWS_PROXY",
+        integrationUri: cdk.Stack.of(lambdaFn).formatArn({
+          service: "apigateway",
+          account: "lambda",
+          resource: `path/2015-03-31/functions/${lambdaFn.functionArn}/invocations`,
+        }),
+      },
+    );
+
+    const resumeRoute = new apigatewayv2.CfnRoute(this, "ResumeRoute", {
+      apiId: messagesWebsocket.ref,
+      routeKey: RESUME_ROUTE,
+      target: `integrations/${resumeIntegration.ref}`,
+      authorizationType: "NONE",
+      routeResponseSelectionExpression: "$default",
+    });
+
+    new apigatewayv2.CfnRouteResponse(this, "ResumeRouteResponse", {
+      apiId: messagesWebsocket.ref,
+      routeId: resumeRoute.ref,
+      routeResponseKey: "$default",
+    });
+
+    this.suppressRouteAuthorization(resumeRoute);
+  }
+
+  /**
+   * Creates the websocket $default route and the custom action routes to forward the client frames to the backends.
+   *
+   * The client sends a JSON object, with the `action` of a custom route to validate it with the schema of the action.
+   * The frame is forwarded to the upstream queue, or to the event bus as a ClientMessage event, with the following
+   * properties:
+   * - action {string}: the route of the frame, `$default` or the custom action.
+   * - userId {string}: the user ID from the Cognito User Pool (the authorizer principalId).
+   * - username {string}: the username from the Cognito User Pool.
+   * - connectionId {string}: the connection ID that sent the frame.
+   * - requestId {string}: the ID of the frame, sent back to the client.
+   * - receivedAt {number}: the timestamp when the gateway received the frame.
+   * - frame {object}: the frame sent by the client.
+   *
+   * @param messagesWebsocket the messages websocket.
+   * @param eventBus the EventBridge bus to send the client messages, if there is no upstream queue.
+   * @param upstreamQueue the SQS queue to send the client messages, if any.
+   * @param upstreamActions the custom actions with the schema of their frames.
+   * @param upstreamMaxSize the maximum size in bytes of a frame.
+   */
+  private createUpstreamRoutes(
+    messagesWebsocket: apigatewayv2.CfnApi,
+    eventBus: events.IEventBus,
+    upstreamQueue: sqs.IQueue | undefined,
+    upstreamActions: Record<string, object | undefined>,
+    upstreamMaxSize: number,
+  ) {
+    const lambdaFn = this.createFunction(
+      "ForwardUpstream",
+      "forward-upstream",
+      {
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        EVENT_SOURCE,
+        UPSTREAM_QUEUE_URL: upstreamQueue?.queueUrl ?? "",
+        UPSTREAM_QUEUE_FIFO: `${upstreamQueue?.fifo ?? false}`,
+        UPSTREAM_MAX_SIZE: `${upstreamMaxSize}`,
+      },
+    );
+
+    if (upstreamQueue) {
+      upstreamQueue.grantSendMessages(lambdaFn);
+    } else {
+      eventBus.grantPutEventsTo(lambdaFn);
+    }
+
+    const upstreamIntegration = new apigatewayv2.CfnIntegration(
+      this,
+      "UpstreamIntegration",
+      {
+        apiId: messagesWebsocket.ref,
+        integrationType: "AWS_PROXY",
+        integrationUri: cdk.Stack.of(lambdaFn).formatArn({
+          service: "apigateway",
+          account: "lambda",
+          resource: `path/2015-03-31/functions/${lambdaFn.functionArn}/invocations`,
+        }),
+      },
+    );
+
+    const routes = [
+      { routeKey: "$default", schema: UPSTREAM_FRAME_SCHEMA },
+      ...Object.entries(upstreamActions).map(([routeKey, schema]) => ({
+        routeKey,
+        schema: schema ?? UPSTREAM_FRAME_SCHEMA,
+      })),
+    ];
+
+    routes.forEach(({ routeKey, schema }, index) => {
+      lambdaFn.addPermission(`WebsocketInvokePermission${index}`, {
+        principal: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+        action: "lambda:InvokeFunction",
+        sourceArn: cdk.Stack.of(messagesWebsocket).formatArn({
+          service: "execute-api",
+          resource: `${messagesWebsocket.ref}/*/${routeKey}`,
+        }),
+      });
+
+      const model = new apigatewayv2.CfnModel(this, `UpstreamModel${index}`, {
+        apiId: messagesWebsocket.ref,
+        name: `UpstreamFrame${index}`,
+        contentType: "application/json",
+        schema,
+      });
+
+      const route = new apigatewayv2.CfnRoute(this, `UpstreamRoute${index}`, {
+        apiId: messagesWebsocket.ref,
+        routeKey,
+        target: `integrations/${upstreamIntegration.ref}`,
+        authorizationType: "NONE",
+        modelSelectionExpression: "\\$default",
+        requestModels: { $default: model.name },
+        routeResponseSelectionExpression: "$default",
+      });
+      route.node.addDependency(model);
+
+      new apigatewayv2.CfnRouteResponse(this, `UpstreamRouteResponse${index}`, {
+        apiId: messagesWebsocket.ref,
+        routeId: route.ref,
+        routeResponseKey: "$default",
+      });
+
+      this.suppressRouteAuthorization(route);
+    });
+  }
+
+  /**
+   * Suppresses the cdk-nag finding of a websocket route without authorization.
+   *
+   * @param route the websocket route.
+   */
+  private suppressRouteAuthorization(route: apigatewayv2.CfnRoute) {
+    NagSuppressions.addResourceSuppressions(route, [
+      {
+        id: "AwsSolutions-APIG4",
+        reason:
+          "Only the $connect route supports authorizers, the connection is authorized when it is established.",
+      },
+    ]);
+  }
+
+  /**
+   * Create the Step Functions to send a message to the user.
+   *
+   * @param props the resources and settings of the Step Functions.
+   * @returns the Step Functions reference.
+   */
+  private createSendMessageSfn(props: SendMessageSfnProps): sfn.IStateMachine {
+    const {
+      messagesQueue,
+      highPriorityQueue,
+      messagesTable,
+      connectionsTable,
+      sequencesTable,
+      idempotencyKeysTable,
+      collapseKeysTable,
+      idempotencyTtl,
+      messageStatusTable,
+      historyTable,
+      historyTtl,
+      maxHistoryMessages,
+      eventBus,
+      redeliveryQueue,
+      payloadsBucket,
+      sendLargeMessageFn,
+      compressMessageFn,
+      compression,
+      sendEncryptedMessageFn,
+      encryptionKey,
+      maxBacklogMessages,
+      maxBacklogBytes,
+      backlogPolicy,
+      messagesWebsocket,
+      apiStage,
+    } = props;
+
+    const sendMessageSfnRole = new iam.Role(this, "SendMessageSfnRole", {
+      assumedBy: new iam.ServicePrincipal("states.amazonaws.com"),
+    });
+    messagesTable.grantReadWriteData(sendMessageSfnRole);
+    connectionsTable.grantReadData(sendMessageSfnRole);
+    sequencesTable.grantReadWriteData(sendMessageSfnRole);
+    idempotencyKeysTable.grantReadWriteData(sendMessageSfnRole);
+    collapseKeysTable.grantWriteData(sendMessageSfnRole);
+    messageStatusTable.grantWriteData(sendMessageSfnRole);
+    historyTable.grantWriteData(sendMessageSfnRole);
+    eventBus.grantPutEventsTo(sendMessageSfnRole);
+    redeliveryQueue.grantSendMessages(sendMessageSfnRole);
+    payloadsBucket.grantDelete(sendMessageSfnRole);
+    sendLargeMessageFn.grantInvoke(sendMessageSfnRole);
+    compressMessageFn.grantInvoke(sendMessageSfnRole);
+    sendEncryptedMessageFn.grantInvoke(sendMessageSfnRole);
+    this.grantPutMetricData(sendMessageSfnRole);
+
+    // The schedules of the messages to deliver later, which send them to the queue when they are due.
+    const scheduleGroup = new scheduler.ScheduleGroup(this, "Schedules", {
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+    scheduleGroup.grants.writeSchedules(sendMessageSfnRole);
+
+    const schedulerRole = new iam.Role(this, "SchedulerRole", {
+      assumedBy: new iam.ServicePrincipal("scheduler.amazonaws.com"),
+    });
+    messagesQueue.grantSendMessages(schedulerRole);
+    highPriorityQueue.grantSendMessages(schedulerRole);
+
+    NagSuppressions.addResourceSuppressions(
+      schedulerRole,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The KMS actions to send messages to the queue encrypted with a customer managed key are granted by the queue.",
+          appliesTo: ["Action::kms:GenerateDataKey*", "Action::kms:ReEncrypt*"],
+        },
+      ],
+      true,
+    );
+    schedulerRole.grantPassRole(sendMessageSfnRole);
+
+    sendMessageSfnRole.addToPolicy(
+      new iam.PolicyStatement({
+        actions: ["execute-api:ManageConnections"],
         resources: [
           cdk.Stack.of(messagesWebsocket).formatArn({
             service: "execute-api",
@@ -394,9 +1724,42 @@ export class Gateway extends Construct {
       true,
     );
 
+    const sendMessageSfnLogName = "/aws/vendedlogs/states/SendMessage";
+
+    // CloudWatch Logs uses the key of the log group by the key policy, so it can't be granted to an imported key.
+    encryptionKey?.addToResourcePolicy(
+      new iam.PolicyStatement({
+        principals: [
+          new iam.ServicePrincipal(
+            `logs.${cdk.Stack.of(this).region}.amazonaws.com`,
+          ),
+        ],
+        actions: [
+          "kms:Encrypt*",
+          "kms:Decrypt*",
+          "kms:ReEncrypt*",
+          "kms:GenerateDataKey*",
+          "kms:Describe*",
+        ],
+        resources: ["*"],
+        conditions: {
+          ArnEquals: {
+            "kms:EncryptionContext:aws:logs:arn": cdk.Stack.of(this).formatArn({
+              service: "logs",
+              resource: "log-group",
+              resourceName: sendMessageSfnLogName,
+              arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            }),
+          },
+        },
+      }),
+      true,
+    );
+
     const sendMessageSfnLog = new logs.LogGroup(this, "SendMessageSfnLog", {
       retention: logs.RetentionDays.ONE_DAY,
-      logGroupName: "/aws/vendedlogs/states/SendMessage",
+      logGroupName: sendMessageSfnLogName,
+      encryptionKey,
       removalPolicy: utils.getRemovalPolicy(this.node),
     });
 
@@ -413,6 +1776,32 @@ export class Gateway extends Construct {
       definitionSubstitutions: {
         MessagesTable: messagesTable.tableName,
         ConnectionsTable: connectionsTable.tableName,
+        SequencesTable: sequencesTable.tableName,
+        IdempotencyKeysTable: idempotencyKeysTable.tableName,
+        CollapseKeysTable: collapseKeysTable.tableName,
+        IdempotencyTtlSeconds: `${idempotencyTtl.toSeconds()}`,
+        MessageStatusTable: messageStatusTable.tableName,
+        StatusTtlSeconds: `${STATUS_TTL_SECONDS}`,
+        HistoryTable: historyTable.tableName,
+        HistoryTtlSeconds: `${historyTtl.toSeconds()}`,
+        MaxHistoryMessages: `${maxHistoryMessages}`,
+        MaxReceiveCount: `${MAX_RECEIVE_COUNT}`,
+        EventBusArn: eventBus.eventBusArn,
+        EventSource: EVENT_SOURCE,
+        RedeliveryQueueUrl: redeliveryQueue.queueUrl,
+        PayloadsBucket: payloadsBucket.bucketName,
+        SendLargeMessageFunctionArn: sendLargeMessageFn.functionArn,
+        CompressMessageFunctionArn: compressMessageFn.functionArn,
+        SendEncryptedMessageFunctionArn: sendEncryptedMessageFn.functionArn,
+        ScheduleGroup: scheduleGroup.scheduleGroupName,
+        SchedulerRoleArn: schedulerRole.roleArn,
+        MessagesQueueUrl: messagesQueue.queueUrl,
+        HighPriorityMessagesQueueUrl: highPriorityQueue.queueUrl,
+        Compression: compression ?? "none",
+        MaxBacklogMessages: `${maxBacklogMessages}`,
+        MaxBacklogBytes: `${maxBacklogBytes}`,
+        BacklogPolicy: backlogPolicy,
+        MetricsNamespace: METRICS_NAMESPACE,
         ApiEndpoint: `${messagesWebsocket.attrApiId}.execute-api.${
           cdk.Stack.of(this).region
         }.amazonaws.com`,
@@ -426,45 +1815,57 @@ export class Gateway extends Construct {
       removalPolicy: utils.getRemovalPolicy(this.node),
     });
 
-    // EventBridge Pipe to start the Step Functions execution when a message is received at the Messages FIFO queue.
+    // EventBridge Pipes to start the Step Functions execution when a message is received at the Messages FIFO queue,
+    // or at the high-priority queue.
 
     const pipeRole = new iam.Role(this, "MessagePipeRole", {
       assumedBy: new iam.ServicePrincipal("pipes.amazonaws.com"),
     });
 
-    new pipes.CfnPipe(this, "MessagesPipe", {
-      roleArn: pipeRole.roleArn,
-      source: messagesQueue.queueArn,
-      target: sendMessageSfn.stateMachineArn,
-      targetParameters: {
-        stepFunctionStateMachineParameters: {
-          invocationType: "REQUEST_RESPONSE",
+    const pipeSources = {
+      MessagesPipe: messagesQueue,
+      HighPriorityMessagesPipe: highPriorityQueue,
+    };
+    for (const [id, queue] of Object.entries(pipeSources)) {
+      new pipes.CfnPipe(this, id, {
+        roleArn: pipeRole.roleArn,
+        source: queue.queueArn,
+        target: sendMessageSfn.stateMachineArn,
+        targetParameters: {
+          stepFunctionStateMachineParameters: {
+            invocationType: "REQUEST_RESPONSE",
+          },
+          inputTemplate:
+            '{"body":<$.body>,"messageId":"<$.messageId>","receiveCount":"<$.attributes.ApproximateReceiveCount>"}',
         },
-        inputTemplate: '{"body":<$.body>,"messageId":"<$.messageId>"}',
-      },
-    });
+      });
+
+      queue.grantConsumeMessages(pipeRole);
+    }
 
-    messagesQueue.grantConsumeMessages(pipeRole);
     sendMessageSfn.grantStartSyncExecution(pipeRole);
 
     return sendMessageSfn;
   }
 
   /**
-   * Create the Lambda function to send the pending messages to the SendMessage Step Function.
+   * Creates a Lambda function of the gateway with its role and log group.
    *
-   * @param messagesTable the Messages DynamoDB table.
-   * @param messagesQueue the Messages SQS queue.
-   * @param connectionsTable the Connections DynamoDB table.
+   * The handler is implemented at `gateway.<id>.mjs`.
+   *
+   * @param id the construct ID of the function.
+   * @param serviceName the service name for the Powertools logger.
+   * @param environment the environment variables of the function.
+   * @param timeout the timeout of the function (default: 30 seconds).
+   * @returns the Lambda function.
    */
-  private createSendUnsentMessagesLambda(
-    messagesTable: dynamodb.ITable,
-    messagesQueue: sqs.IQueue,
-    connectionsTable: dynamodb.ITable,
-  ) {
-    // Lambda function to retrieve the pending messages and send to the Messages FIFO queue when a
-    // new connection is made.
-    const role = new iam.Role(this, "SendUnsentMessagesRole", {
+  private createFunction(
+    id: string,
+    serviceName: string,
+    environment: Record<string, string>,
+    timeout = cdk.Duration.seconds(30),
+  ): lambda.IFunction {
+    const role = new iam.Role(this, `${id}Role`, {
       assumedBy: new iam.ServicePrincipal("lambda.amazonaws.com"),
     });
 
@@ -479,22 +1880,30 @@ export class Gateway extends Construct {
       }),
     );
 
-    const sendUnsentMessagesLogGroup = new logs.LogGroup(
-      this,
-      "SendUnsentMessagesLogGroup",
-      {
-        retention: logs.RetentionDays.ONE_DAY,
-        removalPolicy: utils.getRemovalPolicy(this.node),
-      },
+    NagSuppressions.addResourceSuppressions(
+      role,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The Lambda function name is not known before deployment, so wildcard is used.",
+        },
+      ],
+      true,
     );
 
-    const lambdaFn = new nodejs.NodejsFunction(this, "SendUnsentMessages", {
+    const logGroup = new logs.LogGroup(this, `${id}LogGroup`, {
+      retention: logs.RetentionDays.ONE_DAY,
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    return new nodejs.NodejsFunction(this, id, {
       architecture: lambda.Architecture.ARM_64,
       runtime: lambda.Runtime.NODEJS_24_X,
-      timeout: cdk.Duration.seconds(30),
+      timeout,
       role: role,
       layers: [utils.getPowertoolsLayer(this)],
-      logGroup: sendUnsentMessagesLogGroup,
+      logGroup,
       bundling: {
         externalModules: [
           "@aws-sdk/*",
@@ -510,18 +1919,72 @@ export class Gateway extends Construct {
         sourceMap: true,
       },
       environment: {
-        MESSAGES_TABLE: messagesTable.tableName,
-        MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+        ...environment,
         NODE_OPTIONS: "--enable-source-maps",
-        POWERTOOLS_SERVICE_NAME: "send-unsent-messages",
+        POWERTOOLS_SERVICE_NAME: serviceName,
       },
     });
+  }
+
+  /**
+   * Grants to send the metrics of the gateway namespace.
+   *
+   * @param grantee the principal to grant.
+   */
+  private grantPutMetricData(grantee: iam.IGrantable) {
+    grantee.grantPrincipal.addToPrincipalPolicy(
+      new iam.PolicyStatement({
+        actions: ["cloudwatch:PutMetricData"],
+        resources: ["*"],
+        conditions: {
+          StringEquals: { "cloudwatch:namespace": METRICS_NAMESPACE },
+        },
+      }),
+    );
+  }
+
+  /**
+   * Create the Lambda function to send the pending messages to the SendMessage Step Function.
+   *
+   * @param messagesTable the Messages DynamoDB table.
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param connectionsTable the Connections DynamoDB table.
+   * @param messageStatusTable the MessageStatus DynamoDB table.
+   * @param eventBus the EventBridge bus to send the expired messages events.
+   */
+  private createSendUnsentMessagesLambda(
+    messagesTable: dynamodb.ITable,
+    messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    connectionsTable: dynamodb.ITable,
+    messageStatusTable: dynamodb.ITable,
+    eventBus: events.IEventBus,
+  ) {
+    // Lambda function to retrieve the pending messages and send to the Messages FIFO queue when a
+    // new connection is made.
+    const lambdaFn = this.createFunction(
+      "SendUnsentMessages",
+      "send-unsent-messages",
+      {
+        MESSAGES_TABLE: messagesTable.tableName,
+        MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+        HIGH_PRIORITY_QUEUE_URL: highPriorityQueue.queueUrl,
+        MESSAGE_STATUS_TABLE: messageStatusTable.tableName,
+        STATUS_TTL_SECONDS: `${STATUS_TTL_SECONDS}`,
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        EVENT_SOURCE,
+      },
+    );
 
     messagesTable.grantReadWriteData(lambdaFn);
     messagesQueue.grantSendMessages(lambdaFn);
+    highPriorityQueue.grantSendMessages(lambdaFn);
+    messageStatusTable.grantWriteData(lambdaFn);
+    eventBus.grantPutEventsTo(lambdaFn);
 
-    // Integrates with the Connections DynamoDB stream to start execution when a new websocket connection is made
-
+    // Integrates with the Connections DynamoDB stream to start execution when a new websocket connection is made.
+    // The updates of a connection, like its subscriptions, don't send the unsent messages again.
     if (connectionsTable.tableStreamArn === undefined) {
       throw new Error(
         "DynamoDB Streams is not enabled for the Connections table",
@@ -534,22 +1997,212 @@ export class Gateway extends Construct {
         startingPosition: lambda.StartingPosition.LATEST,
         filters: [
           lambda.FilterCriteria.filter({
-            eventName: lambda.FilterRule.or("INSERT", "MODIFY"),
+            eventName: lambda.FilterRule.isEqual("INSERT"),
           }),
         ],
       }),
     );
 
-    NagSuppressions.addResourceSuppressions(
-      role,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason: "The permission to List streams can't be restricted.",
-        },
-      ],
-      true,
+    if (lambdaFn.role !== undefined) {
+      NagSuppressions.addResourceSuppressions(
+        lambdaFn.role,
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason: "The permission to List streams can't be restricted.",
+          },
+        ],
+        true,
+      );
+    }
+  }
+
+  /**
+   * Create the Lambda function to record the last time the users were seen and to send the UserConnected and
+   * UserDisconnected events when a websocket connection is made or removed.
+   *
+   * @param connectionsTable the Connections DynamoDB table.
+   * @param presenceTable the Presence DynamoDB table.
+   * @param eventBus the EventBridge bus to send the presence events.
+   */
+  private createPublishPresenceLambda(
+    connectionsTable: dynamodb.ITable,
+    presenceTable: dynamodb.ITable,
+    eventBus: events.IEventBus,
+  ) {
+    const lambdaFn = this.createFunction(
+      "PublishPresence",
+      "publish-presence",
+      {
+        CONNECTIONS_TABLE: connectionsTable.tableName,
+        PRESENCE_TABLE: presenceTable.tableName,
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        EVENT_SOURCE,
+      },
+    );
+
+    connectionsTable.grantReadData(lambdaFn);
+    presenceTable.grantWriteData(lambdaFn);
+    eventBus.grantPutEventsTo(lambdaFn);
+
+    // Integrates with the Connections DynamoDB stream, as its second reader, to process the new and the removed
+    // connections. The removed records only have the keys, since the stream has the new images.
+
+    if (connectionsTable.tableStreamArn === undefined) {
+      throw new Error(
+        "DynamoDB Streams is not enabled for the Connections table",
+      );
+    }
+
+    lambdaFn.addEventSource(
+      new eventsources.DynamoEventSource(connectionsTable, {
+        reportBatchItemFailures: true,
+        startingPosition: lambda.StartingPosition.LATEST,
+        filters: [
+          lambda.FilterCriteria.filter({
+            eventName: lambda.FilterRule.or("INSERT", "REMOVE"),
+          }),
+        ],
+      }),
+    );
+
+    if (lambdaFn.role !== undefined) {
+      NagSuppressions.addResourceSuppressions(
+        lambdaFn.role,
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason: "The permission to List streams can't be restricted.",
+          },
+        ],
+        true,
+      );
+    }
+  }
+
+  /**
+   * Creates the queue to check if the delivered messages were acknowledged.
+   *
+   * A check is sent for each delivered message with the following body:
+   * - userId {string}: the user ID from the Cognito User Pool.
+   * - timestamp {number}: the timestamp of the message when the gateway received it for the first time.
+   * - messageId {string}: the message ID.
+   * - attempt {number}: the number of redeliveries of the message, if any.
+   *
+   * The checks are delayed by the ack timeout, so they are received after the client had time to acknowledge.
+   *
+   * @param ackTimeout the time to wait for the acknowledgement.
+   * @returns the SQS queue reference.
+   */
+  private createRedeliveryQueue(ackTimeout: cdk.Duration): sqs.IQueue {
+    if (ackTimeout.toSeconds() > cdk.Duration.minutes(15).toSeconds()) {
+      throw new Error("The ack timeout can't be longer than 15 minutes");
+    }
+
+    const redeliveryQueue = new sqs.Queue(this, "RedeliveryQueue", {
+      enforceSSL: true,
+      deliveryDelay: ackTimeout,
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    NagSuppressions.addResourceSuppressions(redeliveryQueue, [
+      {
+        id: "AwsSolutions-SQS3",
+        reason:
+          "A lost check only delays the redelivery until the user reconnects, so a DLQ is not needed.",
+      },
+    ]);
+
+    return redeliveryQueue;
+  }
+
+  /**
+   * Create the Lambda function to send again the messages that were not acknowledged in time.
+   *
+   * @param redeliveryQueue the queue with the redelivery checks.
+   * @param messagesTable the Messages DynamoDB table.
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param messageStatusTable the MessageStatus DynamoDB table.
+   */
+  private createRedeliverMessagesLambda(
+    redeliveryQueue: sqs.IQueue,
+    messagesTable: dynamodb.ITable,
+    messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    messageStatusTable: dynamodb.ITable,
+  ) {
+    const lambdaFn = this.createFunction(
+      "RedeliverMessages",
+      "redeliver-messages",
+      {
+        MESSAGES_TABLE: messagesTable.tableName,
+        MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+        HIGH_PRIORITY_QUEUE_URL: highPriorityQueue.queueUrl,
+        MESSAGE_STATUS_TABLE: messageStatusTable.tableName,
+        STATUS_TTL_SECONDS: `${STATUS_TTL_SECONDS}`,
+        MAX_REDELIVERIES: `${MAX_REDELIVERIES}`,
+      },
+    );
+
+    messagesTable.grantReadData(lambdaFn);
+    messagesQueue.grantSendMessages(lambdaFn);
+    highPriorityQueue.grantSendMessages(lambdaFn);
+    messageStatusTable.grantWriteData(lambdaFn);
+
+    lambdaFn.addEventSource(
+      new eventsources.SqsEventSource(redeliveryQueue, {
+        reportBatchItemFailures: true,
+      }),
+    );
+  }
+
+  /**
+   * Create the Lambda function to move the dead-lettered messages to the Messages table.
+   *
+   * The function is invoked on demand (see `bin/msg.mjs dlq redrive`), so the messages are sent again when the
+   * user connects. The messages that failed before getting a sequence number are sent to their queue again instead,
+   * so they are scheduled, deduplicated, and collapsed as the first time.
+   *
+   * @param messagesDLQ the dead-letter queue of the Messages SQS queue.
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param messagesTable the Messages DynamoDB table.
+   * @param messageStatusTable the MessageStatus DynamoDB table.
+   * @param eventBus the EventBridge bus to send the expired messages events.
+   * @returns the Lambda function reference.
+   */
+  private createRedriveDeadLettersLambda(
+    messagesDLQ: sqs.IQueue,
+    messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    messagesTable: dynamodb.ITable,
+    messageStatusTable: dynamodb.ITable,
+    eventBus: events.IEventBus,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction(
+      "RedriveDeadLetters",
+      "redrive-dead-letters",
+      {
+        DEAD_LETTER_QUEUE_URL: messagesDLQ.queueUrl,
+        MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+        HIGH_PRIORITY_QUEUE_URL: highPriorityQueue.queueUrl,
+        MESSAGES_TABLE: messagesTable.tableName,
+        MESSAGE_STATUS_TABLE: messageStatusTable.tableName,
+        STATUS_TTL_SECONDS: `${STATUS_TTL_SECONDS}`,
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        EVENT_SOURCE,
+      },
     );
+
+    messagesDLQ.grantConsumeMessages(lambdaFn);
+    messagesQueue.grantSendMessages(lambdaFn);
+    highPriorityQueue.grantSendMessages(lambdaFn);
+    messagesTable.grantWriteData(lambdaFn);
+    messageStatusTable.grantWriteData(lambdaFn);
+    eventBus.grantPutEventsTo(lambdaFn);
+
+    return lambdaFn;
   }
 
   /**
@@ -561,14 +2214,32 @@ export class Gateway extends Construct {
    * The payload needs to have the following properties:
    * - userId {string}: the user ID of the user to send the message to as in the Cognito User Pool.
    * - message {string}: the message to send.
+   * - ttlSeconds {number, optional}: the time in seconds to keep the message if it is not delivered.
+   * - expiresAt {number, optional}: the epoch in seconds when the message expires, instead of ttlSeconds.
+   * - deliverAt {string, optional}: the ISO timestamp to deliver the message later.
+   * - delaySeconds {number, optional}: the time in seconds to deliver the message later, instead of deliverAt.
+   * - priority {string, optional}: `high` to send the message through the high-priority queue, or `normal`.
+   * - collapseKey {string, optional}: the key of the messages that replace the older ones of the user.
+   *
+   * The response has the ID of the message to correlate with the delivered message. A batch of messages has a single
+   * priority for all the messages, as they are sent to the same queue.
+   *
+   * When the messages are encrypted or rejected if the backlog of the user is full, the Lambda function queues them
+   * instead of the SQS integration.
    *
    * @param apiGatewayAccount the API Gateway account.
-   * @param messageSfn the Step Function to send the message.
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param messageTtl the time to keep a message when the producer doesn't set its expiration.
+   * @param enqueueMessageFn the Lambda function to queue the messages, if they are encrypted or rejected.
    * @returns the reference to the REST API.
    */
   private createMessageApi(
     apiGatewayAccount: apigateway.CfnAccount,
     messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    messageTtl: cdk.Duration,
+    enqueueMessageFn: lambda.IFunction | undefined,
   ): apigateway.RestApi {
     const logGroup = new logs.LogGroup(this, "MessageApiAccessLogs", {
       retention: logs.RetentionDays.ONE_DAY,
@@ -600,26 +2271,86 @@ export class Gateway extends Construct {
     );
 
     messagesQueue.grantSendMessages(messageIntegrationRole);
+    highPriorityQueue.grantSendMessages(messageIntegrationRole);
 
-    const messageModel = messageApi.addModel("MessageModel", {
-      schema: {
-        type: apigateway.JsonSchemaType.OBJECT,
-        properties: {
-          userId: {
-            type: apigateway.JsonSchemaType.STRING,
-          },
-          message: {
-            type: apigateway.JsonSchemaType.STRING,
-            maxLength: utils.getMaxMessageSize(this.node),
-          },
+    NagSuppressions.addResourceSuppressions(
+      messageIntegrationRole,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The KMS actions to send messages to the queue encrypted with a customer managed key are granted by the queue.",
+          appliesTo: ["Action::kms:GenerateDataKey*", "Action::kms:ReEncrypt*"],
+        },
+      ],
+      true,
+    );
+
+    // The messages of a batch have the priority of the batch.
+    const batchMessageSchema: apigateway.JsonSchema = {
+      type: apigateway.JsonSchemaType.OBJECT,
+      required: ["userId", "message"],
+      properties: {
+        userId: {
+          type: apigateway.JsonSchemaType.STRING,
+        },
+        message: {
+          type: MESSAGE_TYPES,
+        },
+        contentType: {
+          type: apigateway.JsonSchemaType.STRING,
+        },
+        ttlSeconds: {
+          type: apigateway.JsonSchemaType.INTEGER,
+          minimum: 1,
+        },
+        expiresAt: {
+          type: apigateway.JsonSchemaType.INTEGER,
+        },
+        idempotencyKey: {
+          type: apigateway.JsonSchemaType.STRING,
+          pattern: IDEMPOTENCY_KEY_PATTERN,
         },
+        collapseKey: {
+          type: apigateway.JsonSchemaType.STRING,
+          minLength: 1,
+        },
+        deliverAt: {
+          type: apigateway.JsonSchemaType.STRING,
+          pattern: DELIVER_AT_PATTERN,
+        },
+        delaySeconds: {
+          type: apigateway.JsonSchemaType.INTEGER,
+          minimum: 1,
+        },
+      },
+    };
+
+    const priorityProperty: apigateway.JsonSchema = {
+      type: apigateway.JsonSchemaType.STRING,
+      enum: MESSAGE_PRIORITIES,
+    };
+
+    const messageSchema: apigateway.JsonSchema = {
+      ...batchMessageSchema,
+      properties: {
+        ...batchMessageSchema.properties,
+        priority: priorityProperty,
       },
+    };
+
+    // The queue of the message is chosen by its priority.
+    const queueUrlTemplate = `#if($body.priority == 'high')#set($queueUrl = '${highPriorityQueue.queueUrl}')#else#set($queueUrl = '${messagesQueue.queueUrl}')#end`;
+
+    const messageModel = messageApi.addModel("MessageModel", {
+      schema: messageSchema,
     });
 
-    // Send the received message to the Messages Queue.
+    // Send the received message to the Messages Queue, or to the high-priority queue. A message too large is sent
+    // without a body, so SQS rejects it with the MissingParameter error, answered with the 413 status code.
     const sqsIntegration = new apigateway.AwsIntegration({
       service: "sqs",
-      path: `${cdk.Stack.of(this).account}/${messagesQueue.queueName}`,
+      action: "SendMessage",
       options: {
         credentialsRole: messageIntegrationRole,
         passthroughBehavior: apigateway.PassthroughBehavior.NEVER,
@@ -628,16 +2359,36 @@ export class Gateway extends Construct {
             "'application/x-www-form-urlencoded'",
         },
         requestTemplates: {
-          "application/json":
-            "#set($body = $input.path('$'))\n#set($body.timestamp = $context.requestTimeEpoch)\nAction=SendMessage&MessageBody=$util.urlEncode($input.json('$'))&MessageDeduplicationId=$util.urlEncode($context.extendedRequestId)&MessageGroupId=$util.urlEncode($input.path('$.userId'))",
+          "application/json": [
+            "#set($body = $input.path('$'))",
+            "#set($tooLarge = false)",
+            ...this.getMessageSizeTemplate("$.message"),
+            "#set($idempotencyKey = $input.params('Idempotency-Key'))",
+            "#if($idempotencyKey != '')#set($body.idempotencyKey = $idempotencyKey)#end",
+            ...this.getMessageTemplate(messageTtl),
+            "#if($body.idempotencyKey)#set($deduplicationId = $body.idempotencyKey)#else#set($deduplicationId = $context.extendedRequestId)#end",
+            queueUrlTemplate,
+            "#if($tooLarge)",
+            "Action=SendMessage&QueueUrl=$util.urlEncode($queueUrl)",
+            "#else",
+            "Action=SendMessage&QueueUrl=$util.urlEncode($queueUrl)&MessageBody=$util.urlEncode($input.json('$'))&MessageDeduplicationId=$util.urlEncode($deduplicationId)&MessageGroupId=$util.urlEncode($input.path('$.userId'))",
+            "#end",
+          ].join("\n"),
         },
         integrationResponses: [
           {
             statusCode: "200",
+            responseTemplates: {
+              "application/json": '{"messageId": "$context.requestId"}',
+            },
           },
           {
             statusCode: "400",
             selectionPattern: "4\\d{2}",
+            responseTemplates: {
+              "application/json":
+                this.getMessageTooLargeTemplate("MissingParameter"),
+            },
           },
           {
             statusCode: "500",
@@ -647,29 +2398,164 @@ export class Gateway extends Construct {
       },
     });
 
-    const postMethod = messageResource.addMethod("POST", sqsIntegration, {
-      authorizationType: apigateway.AuthorizationType.IAM,
-      methodResponses: [
-        {
-          statusCode: "200",
+    const enqueueIntegration =
+      enqueueMessageFn && new apigateway.LambdaIntegration(enqueueMessageFn);
+
+    const postMethod = messageResource.addMethod(
+      "POST",
+      enqueueIntegration ?? sqsIntegration,
+      {
+        authorizationType: apigateway.AuthorizationType.IAM,
+        methodResponses: [
+          {
+            statusCode: "200",
+          },
+          {
+            statusCode: "400",
+          },
+          {
+            statusCode: "413",
+          },
+          {
+            statusCode: "500",
+          },
+        ],
+        requestValidatorOptions: {
+          validateRequestBody: true,
+          validateRequestParameters: true,
         },
-        {
-          statusCode: "400",
+        requestParameters: {
+          "method.request.header.Idempotency-Key": false,
         },
-        {
-          statusCode: "500",
+        requestModels: {
+          "application/json": messageModel,
         },
-      ],
-      requestValidatorOptions: {
-        validateRequestBody: true,
-        validateRequestParameters: true,
       },
-      requestModels: {
-        "application/json": messageModel,
+    );
+
+    NagSuppressions.addResourceSuppressions(postMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW POST uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+
+    const messagesModel = messageApi.addModel("MessagesModel", {
+      schema: {
+        type: apigateway.JsonSchemaType.OBJECT,
+        required: ["messages"],
+        properties: {
+          messages: {
+            type: apigateway.JsonSchemaType.ARRAY,
+            minItems: 1,
+            maxItems: MAX_BATCH_SIZE,
+            items: batchMessageSchema,
+          },
+          priority: priorityProperty,
+        },
       },
     });
 
-    NagSuppressions.addResourceSuppressions(postMethod, [
+    // Send the received messages to the queue of their priority in a single batch. Each entry is kept in a single line
+    // (`##` comments out the line break) to not break the form. A batch with a message too large is sent without
+    // entries, so SQS rejects it with the EmptyBatchRequest error, answered with the 413 status code.
+    const sqsBatchIntegration = new apigateway.AwsIntegration({
+      service: "sqs",
+      action: "SendMessageBatch",
+      options: {
+        credentialsRole: messageIntegrationRole,
+        passthroughBehavior: apigateway.PassthroughBehavior.NEVER,
+        requestParameters: {
+          "integration.request.header.Content-Type":
+            "'application/x-www-form-urlencoded'",
+        },
+        requestTemplates: {
+          "application/json": [
+            "#set($body = $input.path('$'))",
+            `${queueUrlTemplate}##`,
+            "Action=SendMessageBatch&QueueUrl=$util.urlEncode($queueUrl)##",
+            "#set($priority = $body.priority)",
+            "#set($tooLarge = false)##",
+            "#foreach($message in $input.path('$.messages'))##",
+            "#set($i = $foreach.index)##",
+            ...this.getMessageSizeTemplate("$.messages[$i].message").map(
+              (line) => `${line}##`,
+            ),
+            "#end##",
+            "#if(!$tooLarge)##",
+            "#foreach($body in $input.path('$.messages'))",
+            "#set($i = $foreach.index)",
+            "#if($priority)#set($body.priority = $priority)#end##",
+            ...this.getMessageTemplate(
+              messageTtl,
+              '"$context.requestId-$i"',
+            ).map((line) => `${line}##`),
+            '#if($body.idempotencyKey)#set($deduplicationId = $body.idempotencyKey)#else#set($deduplicationId = "$context.extendedRequestId-$i")#end##',
+            "&SendMessageBatchRequestEntry.$foreach.count.Id=$i##",
+            `&SendMessageBatchRequestEntry.$foreach.count.MessageBody=$util.urlEncode($input.json("$.messages[$i]"))##`,
+            `&SendMessageBatchRequestEntry.$foreach.count.MessageDeduplicationId=$util.urlEncode($deduplicationId)##`,
+            "&SendMessageBatchRequestEntry.$foreach.count.MessageGroupId=$util.urlEncode($body.userId)##",
+            "#end##",
+            "#end",
+          ].join("\n"),
+        },
+        integrationResponses: [
+          {
+            statusCode: "200",
+            responseTemplates: {
+              "application/json": [
+                "#set($result = $input.path('$.SendMessageBatchResponse.SendMessageBatchResult'))",
+                "{",
+                '"successful": [#foreach($entry in $result.Successful){"index": $entry.Id, "messageId": "$context.requestId-$entry.Id"}#if($foreach.hasNext),#end#end],',
+                '"failed": [#foreach($entry in $result.Failed){"index": $entry.Id, "code": "$entry.Code", "senderFault": $entry.SenderFault}#if($foreach.hasNext),#end#end]',
+                "}",
+              ].join("\n"),
+            },
+          },
+          {
+            statusCode: "400",
+            selectionPattern: "4\\d{2}",
+            responseTemplates: {
+              "application/json":
+                this.getMessageTooLargeTemplate("EmptyBatchRequest"),
+            },
+          },
+          {
+            statusCode: "500",
+            selectionPattern: "5\\d{2}",
+          },
+        ],
+      },
+    });
+
+    const postBatchMethod = messageApi.root
+      .addResource(MESSAGES_PATH)
+      .addMethod("POST", enqueueIntegration ?? sqsBatchIntegration, {
+        authorizationType: apigateway.AuthorizationType.IAM,
+        methodResponses: [
+          {
+            statusCode: "200",
+          },
+          {
+            statusCode: "400",
+          },
+          {
+            statusCode: "413",
+          },
+          {
+            statusCode: "500",
+          },
+        ],
+        requestValidatorOptions: {
+          validateRequestBody: true,
+          validateRequestParameters: true,
+        },
+        requestModels: {
+          "application/json": messagesModel,
+        },
+      });
+
+    NagSuppressions.addResourceSuppressions(postBatchMethod, [
       {
         id: "AwsSolutions-COG4",
         reason: "The API GW POST uses IAM as the authorizer, not Cognito.",
@@ -692,21 +2578,1105 @@ export class Gateway extends Construct {
   }
 
   /**
-   * Grant invoke to the message API to a Lambda function.
+   * Returns the mapping template lines to set `$tooLarge` if the message at the JSON path is larger than the maximum
+   * message size (context `max-message-size`).
    *
-   * @param lambdaFn the Lambda function that will use the gateway to send message.
+   * The size of a message is the UTF-8 bytes of a string, or of its JSON otherwise, as the gateway records it. The bytes
+   * are counted as the characters of the URL-encoded message, with each encoded byte counted once.
+   *
+   * @param path the JSON path of the message, which can use template variables.
+   * @returns the mapping template lines.
    */
-  public grantInvoke(lambdaFn: lambda.IFunction): void {
-    lambdaFn.addToRolePolicy(
-      new iam.PolicyStatement({
-        actions: ["execute-api:Invoke"],
-        resources: [
-          cdk.Stack.of(this.messageApi).formatArn({
-            service: "execute-api",
-            resource: `${this.messageApi.restApiId}/${this.messageApi.deploymentStage.stageName}/POST/message`,
-          }),
-        ],
-      }),
-    );
+  private getMessageSizeTemplate(path: string): string[] {
+    return [
+      `#set($json = $input.json("${path}"))`,
+      `#if($json.startsWith('"'))#set($value = $input.path("${path}"))#else#set($value = $json)#end`,
+      `#set($size = $util.urlEncode($value).replaceAll("%[0-9A-F]{2}", "-").length())`,
+      `#if($size > ${utils.getMaxMessageSize(this.node)})#set($tooLarge = true)#end`,
+    ];
+  }
+
+  /**
+   * Returns the mapping template of an SQS error response that answers the error of a message too large with the 413
+   * status code, and passes any other error through.
+   *
+   * @param errorCode the SQS error code of the requests sent for the messages too large.
+   * @returns the mapping template.
+   */
+  private getMessageTooLargeTemplate(errorCode: string): string {
+    return [
+      "#set($errorCode = \"$!input.path('$.Error.Code')\")",
+      `#if($errorCode.endsWith('${errorCode}'))`,
+      "#set($context.responseOverride.status = 413)",
+      '{"message": "The message is too large"}',
+      "#else",
+      "$input.body",
+      "#end",
+    ].join("\n");
+  }
+
+  /**
+   * Returns the mapping template lines to add the gateway properties to the received message at `$body`.
+   *
+   * The following properties are added to the message:
+   * - timestamp {number}: the time when the gateway received the message.
+   * - messageId {string}: the message ID.
+   * - expiresAt {number}: the epoch in seconds when the message expires, if not set by the producer.
+   *
+   * @param messageTtl the time to keep a message when the producer doesn't set its expiration.
+   * @param messageId the template expression of the message ID (default: the API request ID).
+   * @returns the mapping template lines.
+   */
+  private getMessageTemplate(
+    messageTtl: cdk.Duration,
+    messageId = "$context.requestId",
+  ): string[] {
+    return [
+      "#set($body.timestamp = $context.requestTimeEpoch)",
+      `#set($body.messageId = ${messageId})`,
+      "#if(!$body.expiresAt)",
+      `#if($body.ttlSeconds)#set($ttl = $body.ttlSeconds)#else#set($ttl = ${messageTtl.toSeconds()})#end`,
+      "#set($body.expiresAt = $context.requestTimeEpoch / 1000 + $ttl)",
+      "#end",
+    ];
+  }
+
+  /**
+   * Create the Lambda function to send a message published to a topic to each subscriber.
+   *
+   * @param subscriptionsTable the Subscriptions DynamoDB table.
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param messageEncryptionKey the KMS key to encrypt the messages before they are queued, if they are encrypted.
+   * @returns the Lambda function.
+   */
+  private createPublishTopicMessageLambda(
+    subscriptionsTable: dynamodb.ITable,
+    messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    messageEncryptionKey: kms.IKey | undefined,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction(
+      "PublishTopicMessage",
+      "publish-topic-message",
+      {
+        SUBSCRIPTIONS_TABLE: subscriptionsTable.tableName,
+        MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+        HIGH_PRIORITY_QUEUE_URL: highPriorityQueue.queueUrl,
+        ENCRYPTION_KEY_ARN: messageEncryptionKey?.keyArn ?? "",
+        MAX_MESSAGE_SIZE: `${utils.getMaxMessageSize(this.node)}`,
+      },
+    );
+
+    subscriptionsTable.grantReadData(lambdaFn);
+    messagesQueue.grantSendMessages(lambdaFn);
+    highPriorityQueue.grantSendMessages(lambdaFn);
+    messageEncryptionKey?.grant(lambdaFn, "kms:GenerateDataKey");
+
+    return lambdaFn;
+  }
+
+  /**
+   * Adds the method to query the delivery status of a message.
+   *
+   * The API has the following resource:
+   * - GET /message/{messageId}: to get the status of the message for each recipient.
+   *
+   * The status of a message is recorded once the gateway processes it, so the message is not found until then.
+   *
+   * @param messageApi the message REST API.
+   * @param messageStatusTable the MessageStatus DynamoDB table.
+   */
+  private addMessageStatusMethod(
+    messageApi: apigateway.RestApi,
+    messageStatusTable: dynamodb.ITable,
+  ) {
+    const messageStatusResource = messageApi.root.resourceForPath(
+      `${MESSAGE_PATH}/{messageId}`,
+    );
+
+    const messageStatusIntegrationRole = new iam.Role(
+      this,
+      "MessageStatusIntegrationRole",
+      {
+        assumedBy: new iam.ServicePrincipal("apigateway.amazonaws.com"),
+      },
+    );
+
+    messageStatusTable.grantReadData(messageStatusIntegrationRole);
+
+    // The queued and pending messages are reported as expired once they expire, since the gateway doesn't
+    // process them again.
+    const dynamodbIntegration = new apigateway.AwsIntegration({
+      service: "dynamodb",
+      action: "Query",
+      options: {
+        credentialsRole: messageStatusIntegrationRole,
+        passthroughBehavior: apigateway.PassthroughBehavior.NEVER,
+        requestTemplates: {
+          "application/json": JSON.stringify({
+            TableName: messageStatusTable.tableName,
+            KeyConditionExpression: "messageId = :messageId",
+            ExpressionAttributeValues: {
+              ":messageId": {
+                S: "$input.params('messageId')",
+              },
+            },
+            ConsistentRead: true,
+          }),
+        },
+        integrationResponses: [
+          {
+            statusCode: "200",
+            responseTemplates: {
+              "application/json": [
+                "#set($items = $input.path('$.Items'))",
+                "#if($items.size() == 0)",
+                "#set($context.responseOverride.status = 404)",
+                '{"message": "Message not found"}',
+                "#else",
+                "#set($now = $context.requestTimeEpoch / 1000)",
+                '{"messageId": "$input.params(\'messageId\')", "recipients": [',
+                "#foreach($item in $items)",
+                "#set($status = $item.status.S)",
+                "#set($expiresAt = $util.parseJson($item.expiresAt.N))",
+                "#if(($status == 'queued' || $status == 'pending-offline') && $expiresAt <= $now)#set($status = 'expired')#end",
+                '{"userId": "$item.userId.S", "state": "$status",#if($item.originalMessageId) "originalMessageId": "$item.originalMessageId.S",#end#if($item.replacedBy) "replacedBy": "$item.replacedBy.S",#end "attempts": $item.attempts.N, "createdAt": $item.createdAt.N, "updatedAt": $item.updatedAt.N, "expiresAt": $expiresAt}#if($foreach.hasNext),#end',
+                "#end",
+                "]}",
+                "#end",
+              ].join("\n"),
+            },
+          },
+          {
+            statusCode: "400",
+            selectionPattern: "4\\d{2}",
+          },
+          {
+            statusCode: "500",
+            selectionPattern: "5\\d{2}",
+          },
+        ],
+      },
+    });
+
+    const getMethod = messageStatusResource.addMethod(
+      "GET",
+      dynamodbIntegration,
+      {
+        authorizationType: apigateway.AuthorizationType.IAM,
+        methodResponses: [
+          {
+            statusCode: "200",
+          },
+          {
+            statusCode: "400",
+          },
+          {
+            statusCode: "404",
+          },
+          {
+            statusCode: "500",
+          },
+        ],
+        requestValidatorOptions: {
+          validateRequestParameters: true,
+        },
+        requestParameters: {
+          "method.request.path.messageId": true,
+        },
+      },
+    );
+
+    NagSuppressions.addResourceSuppressions(getMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW GET uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+  }
+
+  /**
+   * Create the Lambda function to get whether the users are online.
+   *
+   * @param connectionsTable the Connections DynamoDB table.
+   * @param presenceTable the Presence DynamoDB table.
+   * @returns the Lambda function reference.
+   */
+  private createGetPresenceLambda(
+    connectionsTable: dynamodb.ITable,
+    presenceTable: dynamodb.ITable,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction("GetPresence", "get-presence", {
+      CONNECTIONS_TABLE: connectionsTable.tableName,
+      PRESENCE_TABLE: presenceTable.tableName,
+    });
+
+    connectionsTable.grantReadData(lambdaFn);
+    presenceTable.grantReadData(lambdaFn);
+
+    return lambdaFn;
+  }
+
+  /**
+   * Adds the methods to get whether the users are online, for the producers to choose how to reach them.
+   *
+   * The API has the following resources:
+   * - GET /presence/{userId}: to get the presence of the user.
+   * - POST /presence: to get the presence of the users of the `userIds` property, up to 100.
+   *
+   * The presence of a user has the `userId`, `online`, the number of `connections`, and `lastSeenAt`: the last time
+   * in milliseconds since epoch the user connected or disconnected, the time of the request if the user is online, or
+   * null if the user never connected.
+   *
+   * @param messageApi the message REST API.
+   * @param getPresenceFn the Lambda function to get the presence of the users.
+   */
+  private addPresenceMethods(
+    messageApi: apigateway.RestApi,
+    getPresenceFn: lambda.IFunction,
+  ) {
+    const presenceResource = messageApi.root.addResource(PRESENCE_PATH);
+
+    const presenceIntegration = new apigateway.LambdaIntegration(getPresenceFn);
+
+    const getMethod = presenceResource
+      .addResource("{userId}")
+      .addMethod("GET", presenceIntegration, {
+        authorizationType: apigateway.AuthorizationType.IAM,
+        requestValidatorOptions: {
+          validateRequestParameters: true,
+        },
+        requestParameters: {
+          "method.request.path.userId": true,
+        },
+      });
+
+    NagSuppressions.addResourceSuppressions(getMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW GET uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+
+    const presenceModel = messageApi.addModel("PresenceModel", {
+      schema: {
+        type: apigateway.JsonSchemaType.OBJECT,
+        required: ["userIds"],
+        properties: {
+          userIds: {
+            type: apigateway.JsonSchemaType.ARRAY,
+            minItems: 1,
+            maxItems: MAX_PRESENCE_BATCH_SIZE,
+            uniqueItems: true,
+            items: {
+              type: apigateway.JsonSchemaType.STRING,
+              minLength: 1,
+            },
+          },
+        },
+      },
+    });
+
+    const postMethod = presenceResource.addMethod("POST", presenceIntegration, {
+      authorizationType: apigateway.AuthorizationType.IAM,
+      requestValidatorOptions: {
+        validateRequestBody: true,
+        validateRequestParameters: true,
+      },
+      requestModels: {
+        "application/json": presenceModel,
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(postMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW POST uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+  }
+
+  /**
+   * Create the Lambda function to get and acknowledge the stored messages of the clients without a websocket
+   * connection.
+   *
+   * @param messagesTable the Messages DynamoDB table.
+   * @param messageStatusTable the MessageStatus DynamoDB table.
+   * @param payloadsBucket the bucket with the large message payloads.
+   * @param presignedUrlTtl the time the presigned URL of a large message is valid.
+   * @param messageEncryptionKey the KMS key of the encrypted messages, if they are encrypted.
+   * @param allowedOrigins the origins of the browser clients allowed to call the inbox API.
+   * @returns the Lambda function reference.
+   */
+  private createInboxLambda(
+    messagesTable: dynamodb.ITable,
+    messageStatusTable: dynamodb.ITable,
+    payloadsBucket: s3.IBucket,
+    presignedUrlTtl: cdk.Duration,
+    messageEncryptionKey: kms.IKey | undefined,
+    allowedOrigins: string[],
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction("InboxMessages", "inbox-messages", {
+      MESSAGES_TABLE: messagesTable.tableName,
+      MESSAGE_STATUS_TABLE: messageStatusTable.tableName,
+      STATUS_TTL_SECONDS: `${STATUS_TTL_SECONDS}`,
+      PAYLOADS_BUCKET: payloadsBucket.bucketName,
+      PRESIGNED_URL_TTL_SECONDS: `${presignedUrlTtl.toSeconds()}`,
+      MAX_PAGE_SIZE: `${MAX_INBOX_PAGE_SIZE}`,
+      MAX_WAIT_SECONDS: `${MAX_INBOX_WAIT_SECONDS}`,
+      ALLOWED_ORIGINS: allowedOrigins.join(","),
+    });
+
+    messagesTable.grantReadWriteData(lambdaFn);
+    messageStatusTable.grantWriteData(lambdaFn);
+    payloadsBucket.grantRead(lambdaFn);
+    payloadsBucket.grantDelete(lambdaFn);
+    messageEncryptionKey?.grantDecrypt(lambdaFn);
+
+    return lambdaFn;
+  }
+
+  /**
+   * Creates the client-facing inbox REST API, for the clients behind proxies that close the websocket connections.
+   *
+   * The API has the following resources, authorized by the Cognito User Pool of the users:
+   * - GET /inbox: to get the stored messages of the user, oldest first, with the optional query string parameters
+   *   `limit` (1 to 100, default: 10), `cursor` (of the previous page), and `wait` (up to 20 seconds to wait for a
+   *   message if there is none).
+   * - POST /inbox/ack: to remove the received messages with the `messageIds` property, up to 100.
+   *
+   * The messages are read from and removed from the Messages table, so they are the same messages sent when the user
+   * connects to the websocket.
+   *
+   * @param apiGatewayAccount the API Gateway account.
+   * @param userPool the Cognito User Pool of the users.
+   * @param inboxFn the Lambda function to get and acknowledge the messages.
+   * @param allowedOrigins the origins of the browser clients allowed to call the API.
+   * @returns the inbox REST API.
+   */
+  private createInboxApi(
+    apiGatewayAccount: apigateway.CfnAccount,
+    userPool: cognito.IUserPool,
+    inboxFn: lambda.IFunction,
+    allowedOrigins: string[],
+  ): apigateway.RestApi {
+    const logGroup = new logs.LogGroup(this, "InboxApiAccessLogs", {
+      retention: logs.RetentionDays.ONE_DAY,
+      removalPolicy: utils.getRemovalPolicy(this.node),
+    });
+
+    const authorizer = new apigateway.CognitoUserPoolsAuthorizer(
+      this,
+      "InboxAuthorizer",
+      {
+        cognitoUserPools: [userPool],
+      },
+    );
+
+    const inboxApi = new apigateway.RestApi(this, "Inbox", {
+      deploy: true,
+      deployOptions: {
+        ...utils.getApiLog(this.node),
+        accessLogDestination: new apigateway.LogGroupLogDestination(logGroup),
+        accessLogFormat: utils.ACCESS_LOG_FORMAT,
+      },
+      endpointTypes: [apigateway.EndpointType.REGIONAL],
+      defaultMethodOptions: {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer,
+      },
+      // The preflight requests of the browsers are not authorized, since they don't have the token
+      defaultCorsPreflightOptions: {
+        allowOrigins: allowedOrigins,
+        allowMethods: ["GET", "POST"],
+      },
+    });
+
+    inboxApi.node.addDependency(apiGatewayAccount);
+
+    const inboxIntegration = new apigateway.LambdaIntegration(inboxFn);
+
+    const inboxResource = inboxApi.root.addResource(INBOX_PATH);
+
+    inboxResource.addMethod("GET", inboxIntegration, {
+      requestValidatorOptions: {
+        validateRequestParameters: true,
+      },
+      requestParameters: {
+        "method.request.querystring.limit": false,
+        "method.request.querystring.cursor": false,
+        "method.request.querystring.wait": false,
+      },
+    });
+
+    const inboxAckModel = inboxApi.addModel("InboxAckModel", {
+      schema: {
+        type: apigateway.JsonSchemaType.OBJECT,
+        required: ["messageIds"],
+        properties: {
+          messageIds: {
+            type: apigateway.JsonSchemaType.ARRAY,
+            minItems: 1,
+            maxItems: MAX_INBOX_PAGE_SIZE,
+            uniqueItems: true,
+            items: {
+              type: apigateway.JsonSchemaType.STRING,
+              minLength: 1,
+            },
+          },
+        },
+      },
+    });
+
+    inboxResource
+      .addResource(INBOX_ACK_PATH)
+      .addMethod("POST", inboxIntegration, {
+        requestValidatorOptions: {
+          validateRequestBody: true,
+          validateRequestParameters: true,
+        },
+        requestModels: {
+          "application/json": inboxAckModel,
+        },
+      });
+
+    NagSuppressions.addResourceSuppressions(
+      inboxApi,
+      [
+        {
+          id: "AwsSolutions-APIG3",
+          reason:
+            "WAF is not required for this demo application. It should be considered for production.",
+        },
+      ],
+      true,
+    );
+
+    return inboxApi;
+  }
+
+  /**
+   * Adds the method to publish a message to a topic.
+   *
+   * The API has the following resource:
+   * - POST /topic/{topic}/message: to publish a message to all the subscribers of the topic.
+   *
+   * The payload has the same properties of the POST /message, except the userId. The message is sent to the
+   * subscribers asynchronously and the response has the ID of the message.
+   *
+   * @param messageApi the message REST API.
+   * @param publishTopicMessageFn the Lambda function to send the message to the subscribers.
+   * @param messageTtl the time to keep a message when the producer doesn't set its expiration.
+   */
+  private addTopicMessageMethod(
+    messageApi: apigateway.RestApi,
+    publishTopicMessageFn: lambda.IFunction,
+    messageTtl: cdk.Duration,
+  ) {
+    const topicMessageResource = messageApi.root
+      .addResource(TOPIC_PATH)
+      .addResource("{topic}")
+      .addResource(MESSAGE_PATH);
+
+    const topicMessageModel = messageApi.addModel("TopicMessageModel", {
+      schema: {
+        type: apigateway.JsonSchemaType.OBJECT,
+        required: ["message"],
+        properties: {
+          message: {
+            type: MESSAGE_TYPES,
+          },
+          contentType: {
+            type: apigateway.JsonSchemaType.STRING,
+          },
+          ttlSeconds: {
+            type: apigateway.JsonSchemaType.INTEGER,
+            minimum: 1,
+          },
+          expiresAt: {
+            type: apigateway.JsonSchemaType.INTEGER,
+          },
+          priority: {
+            type: apigateway.JsonSchemaType.STRING,
+            enum: MESSAGE_PRIORITIES,
+          },
+        },
+      },
+    });
+
+    // Not using proxy to invoke the Lambda function asynchronously. A message too large is sent synchronously instead,
+    // so the function rejects it with the error answered with the 413 status code.
+    const lambdaIntegration = new apigateway.LambdaIntegration(
+      publishTopicMessageFn,
+      {
+        proxy: false,
+        requestParameters: {
+          "integration.request.header.X-Amz-Invocation-Type": "'Event'",
+        },
+        requestTemplates: {
+          "application/json": [
+            "#set($body = $input.path('$'))",
+            "#set($tooLarge = false)",
+            ...this.getMessageSizeTemplate("$.message"),
+            `#if($tooLarge)#set($context.requestOverride.header["X-Amz-Invocation-Type"] = "RequestResponse")#end`,
+            ...this.getMessageTemplate(messageTtl),
+            "#set($body.topic = $input.params('topic'))",
+            "$input.json('$')",
+          ].join("\n"),
+        },
+        passthroughBehavior: apigateway.PassthroughBehavior.NEVER,
+        integrationResponses: [
+          {
+            statusCode: "202",
+            responseTemplates: {
+              "application/json": '{"messageId": "$context.requestId"}',
+            },
+          },
+          {
+            statusCode: "413",
+            selectionPattern: MESSAGE_TOO_LARGE_ERROR,
+            responseTemplates: {
+              "application/json": '{"message": "The message is too large"}',
+            },
+          },
+          {
+            statusCode: "500",
+            selectionPattern: `(?!${MESSAGE_TOO_LARGE_ERROR}).+`,
+          },
+        ],
+      },
+    );
+
+    const postMethod = topicMessageResource.addMethod(
+      "POST",
+      lambdaIntegration,
+      {
+        authorizationType: apigateway.AuthorizationType.IAM,
+        methodResponses: [
+          {
+            statusCode: "202",
+          },
+          {
+            statusCode: "413",
+          },
+          {
+            statusCode: "500",
+          },
+        ],
+        requestValidatorOptions: {
+          validateRequestBody: true,
+          validateRequestParameters: true,
+        },
+        requestModels: {
+          "application/json": topicMessageModel,
+        },
+      },
+    );
+
+    NagSuppressions.addResourceSuppressions(postMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW POST uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+  }
+
+  /**
+   * Create the Lambda function to send a message to all the connected clients.
+   *
+   * The function is invoked asynchronously and runs up to 15 minutes, so it is not retried to not send the message
+   * twice to the connections it reached.
+   *
+   * @param connectionsTable the Connections DynamoDB table.
+   * @param messagesWebsocket the messages websocket.
+   * @param apiStage the websocket API stage.
+   * @param broadcastRate the maximum number of connections per second to send the message.
+   * @param eventBus the EventBridge bus to send the broadcast events.
+   * @returns the Lambda function.
+   */
+  private createBroadcastLambda(
+    connectionsTable: dynamodb.ITable,
+    messagesWebsocket: apigatewayv2.CfnApi,
+    apiStage: string,
+    broadcastRate: number,
+    eventBus: events.IEventBus,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction(
+      "Broadcast",
+      "broadcast",
+      {
+        CONNECTIONS_TABLE: connectionsTable.tableName,
+        WEBSOCKET_ENDPOINT: `https://${messagesWebsocket.attrApiId}.execute-api.${
+          cdk.Stack.of(this).region
+        }.amazonaws.com/${apiStage}`,
+        BROADCAST_RATE: `${broadcastRate}`,
+        MAX_MESSAGE_SIZE: `${utils.getMaxMessageSize(this.node)}`,
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        EVENT_SOURCE,
+      },
+      cdk.Duration.minutes(15),
+    );
+
+    lambdaFn.configureAsyncInvoke({ retryAttempts: 0 });
+
+    connectionsTable.grantReadData(lambdaFn);
+    eventBus.grantPutEventsTo(lambdaFn);
+
+    lambdaFn.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["execute-api:ManageConnections"],
+        resources: [
+          cdk.Stack.of(messagesWebsocket).formatArn({
+            service: "execute-api",
+            resource: `${messagesWebsocket.attrApiId}/${apiStage}/POST/@connections/*`,
+          }),
+        ],
+      }),
+    );
+
+    return lambdaFn;
+  }
+
+  /**
+   * Adds the method to send a message to all the connected clients.
+   *
+   * The API has the following resource:
+   * - POST /broadcast: to send a message to all the connected clients.
+   *
+   * The payload needs to have the following property:
+   * - message {string}: the message to send.
+   *
+   * The message is not stored, so only the clients connected at the time receive it. The message is sent
+   * asynchronously and the response has the ID of the message. The number of connections reached, gone, and failed
+   * is sent with the BroadcastCompleted event.
+   *
+   * @param messageApi the message REST API.
+   * @param broadcastFn the Lambda function to send the message.
+   */
+  private addBroadcastMethod(
+    messageApi: apigateway.RestApi,
+    broadcastFn: lambda.IFunction,
+  ) {
+    const broadcastResource = messageApi.root.addResource(BROADCAST_PATH);
+
+    const broadcastModel = messageApi.addModel("BroadcastModel", {
+      schema: {
+        type: apigateway.JsonSchemaType.OBJECT,
+        required: ["message"],
+        properties: {
+          message: {
+            type: MESSAGE_TYPES,
+          },
+          contentType: {
+            type: apigateway.JsonSchemaType.STRING,
+          },
+        },
+      },
+    });
+
+    // Not using proxy to invoke the Lambda function asynchronously. A message too large is sent synchronously instead,
+    // so the function rejects it with the error answered with the 413 status code.
+    const lambdaIntegration = new apigateway.LambdaIntegration(broadcastFn, {
+      proxy: false,
+      requestParameters: {
+        "integration.request.header.X-Amz-Invocation-Type": "'Event'",
+      },
+      requestTemplates: {
+        "application/json": [
+          "#set($body = $input.path('$'))",
+          "#set($tooLarge = false)",
+          ...this.getMessageSizeTemplate("$.message"),
+          `#if($tooLarge)#set($context.requestOverride.header["X-Amz-Invocation-Type"] = "RequestResponse")#end`,
+          "#set($body.timestamp = $context.requestTimeEpoch)",
+          "#set($body.messageId = $context.requestId)",
+          "$input.json('$')",
+        ].join("\n"),
+      },
+      passthroughBehavior: apigateway.PassthroughBehavior.NEVER,
+      integrationResponses: [
+        {
+          statusCode: "202",
+          responseTemplates: {
+            "application/json": '{"messageId": "$context.requestId"}',
+          },
+        },
+        {
+          statusCode: "413",
+          selectionPattern: MESSAGE_TOO_LARGE_ERROR,
+          responseTemplates: {
+            "application/json": '{"message": "The message is too large"}',
+          },
+        },
+        {
+          statusCode: "500",
+          selectionPattern: `(?!${MESSAGE_TOO_LARGE_ERROR}).+`,
+        },
+      ],
+    });
+
+    const postMethod = broadcastResource.addMethod("POST", lambdaIntegration, {
+      authorizationType: apigateway.AuthorizationType.IAM,
+      methodResponses: [
+        {
+          statusCode: "202",
+        },
+        {
+          statusCode: "413",
+        },
+        {
+          statusCode: "500",
+        },
+      ],
+      requestValidatorOptions: {
+        validateRequestBody: true,
+        validateRequestParameters: true,
+      },
+      requestModels: {
+        "application/json": broadcastModel,
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(postMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW POST uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+  }
+
+  /**
+   * Create the Lambda function to compress a message before it is stored, and to decompress a stored message sent
+   * again to the clients that don't support the compression.
+   *
+   * @param compression the compression of the stored messages, if any.
+   * @returns the Lambda function reference.
+   */
+  private createCompressMessageLambda(
+    compression: "gzip" | "deflate" | undefined,
+  ): lambda.IFunction {
+    return this.createFunction("CompressMessage", "compress-message", {
+      COMPRESSION: compression ?? "none",
+    });
+  }
+
+  /**
+   * Create the Lambda function to decrypt a message and send it to a connection.
+   *
+   * @param messagesWebsocket the messages websocket.
+   * @param apiStage the websocket API stage.
+   * @param messageEncryptionKey the KMS key of the encrypted messages, if they are encrypted.
+   * @returns the Lambda function reference.
+   */
+  private createSendEncryptedMessageLambda(
+    messagesWebsocket: apigatewayv2.CfnApi,
+    apiStage: string,
+    messageEncryptionKey: kms.IKey | undefined,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction(
+      "SendEncryptedMessage",
+      "send-encrypted-message",
+      {
+        WEBSOCKET_ENDPOINT: `https://${messagesWebsocket.attrApiId}.execute-api.${
+          cdk.Stack.of(this).region
+        }.amazonaws.com/${apiStage}`,
+      },
+    );
+
+    messageEncryptionKey?.grantDecrypt(lambdaFn);
+
+    lambdaFn.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["execute-api:ManageConnections"],
+        resources: [
+          cdk.Stack.of(messagesWebsocket).formatArn({
+            service: "execute-api",
+            resource: `${messagesWebsocket.attrApiId}/${apiStage}/POST/@connections/*`,
+          }),
+        ],
+      }),
+    );
+
+    return lambdaFn;
+  }
+
+  /**
+   * Create the Lambda function to queue the messages sent to POST /message and POST /messages, encrypting them or
+   * rejecting them if the backlog of the user is full.
+   *
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param messageTtl the time to keep a message when the producer doesn't set its expiration.
+   * @param messageEncryptionKey the KMS key to encrypt the messages, if they are encrypted.
+   * @param messagesTable the Messages DynamoDB table.
+   * @param maxBacklogMessages the maximum number of stored messages of a user, 0 if there is no limit.
+   * @param maxBacklogBytes the maximum size of the stored messages of a user, 0 if there is no limit.
+   * @param backlogPolicy what to do when the backlog of a user is full.
+   * @returns the Lambda function reference.
+   */
+  private createEnqueueMessageLambda(
+    messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    messageTtl: cdk.Duration,
+    messageEncryptionKey: kms.IKey | undefined,
+    messagesTable: dynamodb.ITable,
+    maxBacklogMessages: number,
+    maxBacklogBytes: number,
+    backlogPolicy: "drop-oldest" | "drop-newest" | "reject",
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction("EnqueueMessage", "enqueue-message", {
+      MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+      HIGH_PRIORITY_QUEUE_URL: highPriorityQueue.queueUrl,
+      MESSAGE_TTL_SECONDS: `${messageTtl.toSeconds()}`,
+      ENCRYPTION_KEY_ARN: messageEncryptionKey?.keyArn ?? "",
+      MESSAGES_TABLE: messagesTable.tableName,
+      MAX_BACKLOG_MESSAGES: `${maxBacklogMessages}`,
+      MAX_BACKLOG_BYTES: `${maxBacklogBytes}`,
+      BACKLOG_POLICY: backlogPolicy,
+      METRICS_NAMESPACE,
+      MAX_MESSAGE_SIZE: `${utils.getMaxMessageSize(this.node)}`,
+    });
+
+    messagesQueue.grantSendMessages(lambdaFn);
+    highPriorityQueue.grantSendMessages(lambdaFn);
+    messageEncryptionKey?.grant(lambdaFn, "kms:GenerateDataKey");
+
+    if (backlogPolicy === "reject") {
+      messagesTable.grantReadData(lambdaFn);
+      this.grantPutMetricData(lambdaFn);
+    }
+
+    return lambdaFn;
+  }
+
+  /**
+   * Create the Lambda function to send a message stored at the payloads bucket to a connection.
+   *
+   * @param payloadsBucket the bucket with the large message payloads.
+   * @param messagesWebsocket the messages websocket.
+   * @param apiStage the websocket API stage.
+   * @param claimCheckDelivery how the client gets the payload: a presigned URL or chunk frames.
+   * @param presignedUrlTtl the time the presigned URL is valid.
+   * @returns the Lambda function reference.
+   */
+  private createSendLargeMessageLambda(
+    payloadsBucket: s3.IBucket,
+    messagesWebsocket: apigatewayv2.CfnApi,
+    apiStage: string,
+    claimCheckDelivery: "url" | "chunks",
+    presignedUrlTtl: cdk.Duration,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction(
+      "SendLargeMessage",
+      "send-large-message",
+      {
+        PAYLOADS_BUCKET: payloadsBucket.bucketName,
+        WEBSOCKET_ENDPOINT: `https://${messagesWebsocket.attrApiId}.execute-api.${
+          cdk.Stack.of(this).region
+        }.amazonaws.com/${apiStage}`,
+        CLAIM_CHECK_DELIVERY: claimCheckDelivery,
+        PRESIGNED_URL_TTL_SECONDS: `${presignedUrlTtl.toSeconds()}`,
+      },
+    );
+
+    payloadsBucket.grantRead(lambdaFn);
+
+    lambdaFn.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["execute-api:ManageConnections"],
+        resources: [
+          cdk.Stack.of(messagesWebsocket).formatArn({
+            service: "execute-api",
+            resource: `${messagesWebsocket.attrApiId}/${apiStage}/POST/@connections/*`,
+          }),
+        ],
+      }),
+    );
+
+    return lambdaFn;
+  }
+
+  /**
+   * Create the Lambda function to enqueue a large message, storing its payload at the payloads bucket.
+   *
+   * @param payloadsBucket the bucket with the large message payloads.
+   * @param messagesQueue the Messages SQS queue.
+   * @param highPriorityQueue the SQS queue of the high-priority messages.
+   * @param messageTtl the time to keep a message when the producer doesn't set its expiration.
+   * @param claimCheckThreshold the size in bytes of a message to store its payload at the bucket.
+   * @param messageEncryptionKey the KMS key to encrypt the messages before they are queued, if they are encrypted.
+   * @returns the Lambda function reference.
+   */
+  private createStoreLargeMessageLambda(
+    payloadsBucket: s3.IBucket,
+    messagesQueue: sqs.IQueue,
+    highPriorityQueue: sqs.IQueue,
+    messageTtl: cdk.Duration,
+    claimCheckThreshold: number,
+    messageEncryptionKey: kms.IKey | undefined,
+  ): lambda.IFunction {
+    const lambdaFn = this.createFunction(
+      "StoreLargeMessage",
+      "store-large-message",
+      {
+        PAYLOADS_BUCKET: payloadsBucket.bucketName,
+        MESSAGES_QUEUE_URL: messagesQueue.queueUrl,
+        HIGH_PRIORITY_QUEUE_URL: highPriorityQueue.queueUrl,
+        MESSAGE_TTL_SECONDS: `${messageTtl.toSeconds()}`,
+        CLAIM_CHECK_THRESHOLD: `${claimCheckThreshold}`,
+        ENCRYPTION_KEY_ARN: messageEncryptionKey?.keyArn ?? "",
+      },
+    );
+
+    payloadsBucket.grantPut(lambdaFn);
+    messagesQueue.grantSendMessages(lambdaFn);
+    highPriorityQueue.grantSendMessages(lambdaFn);
+    messageEncryptionKey?.grant(lambdaFn, "kms:GenerateDataKey");
+
+    return lambdaFn;
+  }
+
+  /**
+   * Adds the method to send a message larger than the queue and websocket limits.
+   *
+   * The API has the following resource:
+   * - POST /large-message: to send a message with the same payload of the POST /message.
+   *
+   * The payload of a message larger than the claim check threshold is stored at the payloads bucket, and only its
+   * reference is queued and stored at the Messages table. The request is limited to the Lambda function payload
+   * (6 MB).
+   *
+   * @param messageApi the message REST API.
+   * @param storeLargeMessageFn the Lambda function to store and enqueue the message.
+   */
+  private addLargeMessageMethod(
+    messageApi: apigateway.RestApi,
+    storeLargeMessageFn: lambda.IFunction,
+  ) {
+    const largeMessageResource =
+      messageApi.root.addResource(LARGE_MESSAGE_PATH);
+
+    const largeMessageModel = messageApi.addModel("LargeMessageModel", {
+      schema: {
+        type: apigateway.JsonSchemaType.OBJECT,
+        required: ["userId", "message"],
+        properties: {
+          userId: {
+            type: apigateway.JsonSchemaType.STRING,
+          },
+          message: {
+            type: MESSAGE_TYPES,
+          },
+          contentType: {
+            type: apigateway.JsonSchemaType.STRING,
+          },
+          ttlSeconds: {
+            type: apigateway.JsonSchemaType.INTEGER,
+            minimum: 1,
+          },
+          expiresAt: {
+            type: apigateway.JsonSchemaType.INTEGER,
+          },
+          idempotencyKey: {
+            type: apigateway.JsonSchemaType.STRING,
+            pattern: IDEMPOTENCY_KEY_PATTERN,
+          },
+          priority: {
+            type: apigateway.JsonSchemaType.STRING,
+            enum: MESSAGE_PRIORITIES,
+          },
+        },
+      },
+    });
+
+    const postMethod = largeMessageResource.addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(storeLargeMessageFn),
+      {
+        authorizationType: apigateway.AuthorizationType.IAM,
+        requestValidatorOptions: {
+          validateRequestBody: true,
+          validateRequestParameters: true,
+        },
+        requestParameters: {
+          "method.request.header.Idempotency-Key": false,
+        },
+        requestModels: {
+          "application/json": largeMessageModel,
+        },
+      },
+    );
+
+    NagSuppressions.addResourceSuppressions(postMethod, [
+      {
+        id: "AwsSolutions-COG4",
+        reason: "The API GW POST uses IAM as the authorizer, not Cognito.",
+      },
+    ]);
+  }
+
+  /**
+   * Grant invoke to a method of the message API to a Lambda function.
+   *
+   * @param lambdaFn the Lambda function to grant.
+   * @param method the HTTP method.
+   * @param path the resource path, without the leading slash.
+   */
+  private grantApiInvoke(
+    lambdaFn: lambda.IFunction,
+    method: string,
+    path: string,
+  ): void {
+    lambdaFn.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["execute-api:Invoke"],
+        resources: [
+          cdk.Stack.of(this.messageApi).formatArn({
+            service: "execute-api",
+            resource: `${this.messageApi.restApiId}/${this.messageApi.deploymentStage.stageName}/${method}/${path}`,
+          }),
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Grant invoke to the message API to a Lambda function.
+   *
+   * @param lambdaFn the Lambda function that will use the gateway to send message.
+   */
+  public grantInvoke(lambdaFn: lambda.IFunction): void {
+    this.grantApiInvoke(lambdaFn, "POST", MESSAGE_PATH);
+    this.grantApiInvoke(lambdaFn, "POST", MESSAGES_PATH);
+    this.grantApiInvoke(lambdaFn, "POST", LARGE_MESSAGE_PATH);
+    this.grantApiInvoke(lambdaFn, "GET", `${MESSAGE_PATH}/*`);
+  }
+
+  /**
+   * Grant publish to any topic of the message API to a Lambda function.
+   *
+   * @param lambdaFn the Lambda function that will use the gateway to publish messages.
+   */
+  public grantPublish(lambdaFn: lambda.IFunction): void {
+    this.grantApiInvoke(lambdaFn, "POST", `${TOPIC_PATH}/*/${MESSAGE_PATH}`);
+  }
+
+  /**
+   * Grant broadcast to the message API to a Lambda function.
+   *
+   * @param lambdaFn the Lambda function that will use the gateway to send messages to all the connected clients.
+   */
+  public grantBroadcast(lambdaFn: lambda.IFunction): void {
+    this.grantApiInvoke(lambdaFn, "POST", BROADCAST_PATH);
+  }
+
+  /**
+   * Grant get the presence of the users to the message API to a Lambda function.
+   *
+   * @param lambdaFn the Lambda function that will use the gateway to get whether the users are online.
+   */
+  public grantPresence(lambdaFn: lambda.IFunction): void {
+    this.grantApiInvoke(lambdaFn, "GET", `${PRESENCE_PATH}/*`);
+    this.grantApiInvoke(lambdaFn, "POST", PRESENCE_PATH);
   }
 }
@@ -19,6 +19,7 @@ export class ServerlessAsyncMessagingGatewayStack extends cdk.Stack {
 
     const gateway = new Gateway(this, "Gateway", {
       tokenAuthorizerFn: authentication.tokenAuthorizerFn,
+      userPool: authentication.userPool,
     });
 
     authentication.addAuthorizerInvokePermission(
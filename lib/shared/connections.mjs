@@ -0,0 +1,38 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { DynamoDBClient, paginateQuery } from "@aws-sdk/client-dynamodb";
+
+const dynamoDB = new DynamoDBClient();
+
+/**
+ * Counts the connections of the user, without the stale records not removed by the TTL yet.
+ *
+ * @param {string} connectionsTable the name of the Connections table.
+ * @param {string} userId the user ID.
+ * @returns {Promise<number>} the number of connections.
+ */
+export async function countConnections(connectionsTable, userId) {
+  const paginatorConfig = {
+    client: dynamoDB,
+  };
+
+  const command = {
+    TableName: connectionsTable,
+    KeyConditionExpression: "userId = :userId",
+    FilterExpression: "#ttl > :now",
+    ExpressionAttributeNames: { "#ttl": "ttl" },
+    ExpressionAttributeValues: {
+      ":userId": { S: userId },
+      ":now": { N: `${Math.floor(Date.now() / 1000)}` },
+    },
+    Select: "COUNT",
+  };
+
+  let count = 0;
+  for await (const page of paginateQuery(paginatorConfig, command)) {
+    count += page.Count;
+  }
+
+  return count;
+}
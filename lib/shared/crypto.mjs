@@ -0,0 +1,72 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import {
+  KMSClient,
+  DecryptCommand,
+  GenerateDataKeyCommand,
+} from "@aws-sdk/client-kms";
+
+const kms = new KMSClient();
+
+/**
+ * Encrypts the message with a new data key of the gateway key (envelope encryption) using AES-256-GCM.
+ *
+ * @param {any} message the message to encrypt, as JSON.
+ * @param {string} messageId the message ID, used as the encryption context.
+ * @param {string} keyId the ARN of the gateway key.
+ * @returns {Promise<any>} the encrypted data `key`, and the `iv`, `tag`, and `data` of the message, as base64.
+ */
+export async function encryptMessage(message, messageId, keyId) {
+  const dataKey = await kms.send(
+    new GenerateDataKeyCommand({
+      KeyId: keyId,
+      KeySpec: "AES_256",
+      EncryptionContext: { messageId },
+    }),
+  );
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", dataKey.Plaintext, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(message)),
+    cipher.final(),
+  ]);
+
+  return {
+    key: Buffer.from(dataKey.CiphertextBlob).toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypts a message encrypted with a data key of the gateway key (envelope encryption).
+ *
+ * @param {any} encryptedMessage the encrypted data `key`, and the `iv`, `tag`, and `data` of the message, as base64.
+ * @param {string} messageId the message ID, used as the encryption context.
+ * @returns {Promise<any>} the message.
+ */
+export async function decryptMessage(encryptedMessage, messageId) {
+  const dataKey = await kms.send(
+    new DecryptCommand({
+      CiphertextBlob: Buffer.from(encryptedMessage.key, "base64"),
+      EncryptionContext: { messageId },
+    }),
+  );
+
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    dataKey.Plaintext,
+    Buffer.from(encryptedMessage.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(encryptedMessage.tag, "base64"));
+  const data = Buffer.concat([
+    decipher.update(Buffer.from(encryptedMessage.data, "base64")),
+    decipher.final(),
+  ]);
+
+  return JSON.parse(data.toString());
+}
@@ -0,0 +1,50 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { gunzipSync, inflateSync } from "zlib";
+import { convertToNative } from "@aws-sdk/util-dynamodb";
+
+/**
+ * Gets the size of a message as the gateway records it: the UTF-8 bytes of a string, or of the JSON otherwise.
+ *
+ * @param {any} message the message.
+ * @returns {number} the size of the message in bytes.
+ */
+export function messageSize(message) {
+  return Buffer.byteLength(
+    typeof message === "string" ? message : JSON.stringify(message),
+  );
+}
+
+/**
+ * Decompresses a message compressed by the gateway.
+ *
+ * @param {Buffer} compressed the JSON of the message compressed with the encoding.
+ * @param {string} encoding the encoding, `gzip` or `deflate`.
+ * @returns {any} the message.
+ */
+export function decompressMessage(compressed, encoding) {
+  const payload =
+    encoding === "gzip" ? gunzipSync(compressed) : inflateSync(compressed);
+  return JSON.parse(payload.toString());
+}
+
+/**
+ * Gets the message of a stored message record for the queue, as the base64 of the compressed message if it is.
+ *
+ * @param {any} item the message record from the messages table.
+ * @returns {any} the `message` or the `encryptedMessage`, or the `compressedMessage` and its `encoding`.
+ */
+export function queuedMessage(item) {
+  if (item.encoding !== undefined) {
+    return {
+      compressedMessage: Buffer.from(item.message.B).toString("base64"),
+      encoding: item.encoding.S,
+    };
+  }
+  return {
+    message: item.message && convertToNative(item.message),
+    encryptedMessage:
+      item.encryptedMessage && convertToNative(item.encryptedMessage),
+  };
+}
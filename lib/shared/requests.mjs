@@ -0,0 +1,17 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+/**
+ * Gets a header of an API Gateway proxy event. HTTP header names are case-insensitive, and API Gateway passes them as
+ * the client sent them.
+ *
+ * @param {any} event the API Gateway proxy event.
+ * @param {string} name the header name.
+ * @returns {string | undefined} the header value, or undefined if the request doesn't have the header.
+ */
+export function getHeader(event, name) {
+  const header = Object.keys(event.headers ?? {}).find(
+    (key) => key.toLowerCase() === name.toLowerCase(),
+  );
+  return header === undefined ? undefined : event.headers[header];
+}
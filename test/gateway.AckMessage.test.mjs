@@ -0,0 +1,99 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  DeleteItemCommand,
+  QueryCommand,
+} from "@aws-sdk/client-dynamodb";
+import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  MESSAGES_TABLE: "Messages",
+  PAYLOADS_BUCKET: "payloads",
+});
+
+const { handler } = await import("../lib/gateway.AckMessage.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const s3 = mockClient(S3Client);
+
+/**
+ * Creates the websocket event of the ack route.
+ *
+ * @param {string} body the frame sent by the client.
+ * @returns {any} the event.
+ */
+function ackEvent(body) {
+  return {
+    body,
+    requestContext: {
+      authorizer: { principalId: "user" },
+      connectionId: "connection",
+    },
+  };
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  s3.reset();
+});
+
+describe("AckMessage", () => {
+  test("removes the acknowledged message and its payload", async () => {
+    dynamoDB.on(QueryCommand).resolves({
+      Items: [
+        {
+          userId: { S: "user" },
+          messageKey: { S: "1700000000000#message" },
+          payloadKey: { S: "user/message" },
+        },
+      ],
+    });
+
+    const response = await handler(
+      ackEvent(JSON.stringify({ action: "ack", messageId: "message" })),
+    );
+
+    expect(response).toEqual({ statusCode: 200 });
+    const query = dynamoDB.commandCalls(QueryCommand)[0].args[0].input;
+    expect(query.ExpressionAttributeValues).toEqual({
+      ":userId": { S: "user" },
+      ":messageId": { S: "message" },
+    });
+    expect(
+      dynamoDB.commandCalls(DeleteItemCommand)[0].args[0].input.Key,
+    ).toEqual({
+      userId: { S: "user" },
+      messageKey: { S: "1700000000000#message" },
+    });
+    expect(s3.commandCalls(DeleteObjectCommand)[0].args[0].input).toEqual({
+      Bucket: "payloads",
+      Key: "user/message",
+    });
+  });
+
+  test("ignores the acknowledgement of a message already removed", async () => {
+    dynamoDB.on(QueryCommand).resolves({ Items: [] });
+
+    const response = await handler(
+      ackEvent(JSON.stringify({ action: "ack", messageId: "message" })),
+    );
+
+    expect(response).toEqual({ statusCode: 200 });
+    expect(dynamoDB.commandCalls(DeleteItemCommand)).toHaveLength(0);
+  });
+
+  test.each(["not json", JSON.stringify({ action: "ack", messageId: 1 })])(
+    "rejects the invalid acknowledgement %s",
+    async (body) => {
+      const response = await handler(ackEvent(body));
+
+      expect(response).toEqual({ statusCode: 400 });
+      expect(dynamoDB.commandCalls(QueryCommand)).toHaveLength(0);
+    },
+  );
+});
@@ -0,0 +1,147 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { jest } from "@jest/globals";
+import {
+  ApiGatewayManagementApiClient,
+  GoneException,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import { DynamoDBClient, ScanCommand } from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  CONNECTIONS_TABLE: "Connections",
+  WEBSOCKET_ENDPOINT: "https://websocket",
+  BROADCAST_RATE: "2",
+  MAX_MESSAGE_SIZE: "16",
+  EVENT_BUS_NAME: "bus",
+  EVENT_SOURCE: "async-messaging-gateway",
+});
+
+const { handler } = await import("../lib/gateway.Broadcast.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const eventBridge = mockClient(EventBridgeClient);
+const websocket = mockClient(ApiGatewayManagementApiClient);
+
+/**
+ * Creates the connection records of a page of the connections table.
+ *
+ * @param {string[]} connectionIds the connection IDs.
+ * @returns {any[]} the connection records.
+ */
+function connectionItems(connectionIds) {
+  return connectionIds.map((connectionId) => ({
+    connectionId: { S: connectionId },
+  }));
+}
+
+/**
+ * Gets the detail type and the detail of the event sent by the function.
+ *
+ * @returns {any} the `detailType` and the `detail`.
+ */
+function sentEvent() {
+  const [entry] =
+    eventBridge.commandCalls(PutEventsCommand)[0].args[0].input.Entries;
+  return { detailType: entry.DetailType, detail: JSON.parse(entry.Detail) };
+}
+
+const event = {
+  messageId: "message",
+  timestamp: 1700000000000,
+  message: "hello",
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  dynamoDB.reset();
+  eventBridge.reset();
+  websocket.reset();
+  eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("Broadcast", () => {
+  test("sends a page of BROADCAST_RATE connections a second and reports the counts", async () => {
+    dynamoDB
+      .on(ScanCommand)
+      .resolvesOnce({
+        Items: connectionItems(["a", "b"]),
+        LastEvaluatedKey: { connectionId: { S: "b" } },
+      })
+      .resolvesOnce({ Items: connectionItems(["c"]) });
+    const sentAt = new Map();
+    websocket.on(PostToConnectionCommand).callsFake((input) => {
+      sentAt.set(input.ConnectionId, Date.now());
+      if (input.ConnectionId === "b") {
+        throw new GoneException({ message: "Gone", $metadata: {} });
+      }
+      if (input.ConnectionId === "c") {
+        throw new Error("Throttled");
+      }
+      return {};
+    });
+
+    const broadcast = handler(event);
+    await jest.advanceTimersByTimeAsync(1000);
+    await broadcast;
+
+    expect(dynamoDB.commandCalls(ScanCommand)[0].args[0].input).toMatchObject({
+      Limit: 2,
+      FilterExpression: "#ttl > :now",
+    });
+    expect(sentAt.get("c") - sentAt.get("a")).toBeGreaterThanOrEqual(1000);
+    expect(sentEvent()).toEqual({
+      detailType: "BroadcastCompleted",
+      detail: expect.objectContaining({
+        messageId: "message",
+        createdAt: 1700000000000,
+        reached: 1,
+        gone: 1,
+        failed: 1,
+      }),
+    });
+  });
+
+  test("reports the failure to read the connections", async () => {
+    dynamoDB
+      .on(ScanCommand)
+      .resolvesOnce({
+        Items: connectionItems(["a"]),
+        LastEvaluatedKey: { connectionId: { S: "a" } },
+      })
+      .rejectsOnce(new Error("Throttled"));
+    websocket.on(PostToConnectionCommand).resolves({});
+
+    await handler(event);
+
+    expect(sentEvent()).toEqual({
+      detailType: "BroadcastFailed",
+      detail: expect.objectContaining({
+        reached: 1,
+        failed: 0,
+        error: "Throttled",
+      }),
+    });
+  });
+
+  test("rejects a message larger than the maximum size", async () => {
+    await expect(
+      handler({ ...event, message: { text: "a message too large" } }),
+    ).rejects.toThrow("The message is too large");
+
+    expect(dynamoDB.commandCalls(ScanCommand)).toHaveLength(0);
+    expect(eventBridge.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,55 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { deflateSync, gunzipSync } from "zlib";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  COMPRESSION: "gzip",
+});
+
+const { handler } = await import("../lib/gateway.CompressMessage.mjs");
+
+// A message that gets smaller once compressed
+const message = { text: "hello ".repeat(100) };
+
+describe("CompressMessage", () => {
+  test("adds the compressed message to the message", async () => {
+    const body = await handler({ body: { messageId: "message", message } });
+
+    expect(body).toMatchObject({
+      messageId: "message",
+      message,
+      encoding: "gzip",
+    });
+    expect(
+      JSON.parse(
+        gunzipSync(Buffer.from(body.compressedMessage, "base64")).toString(),
+      ),
+    ).toEqual(message);
+  });
+
+  test("doesn't compress a message that doesn't get smaller", async () => {
+    const body = { messageId: "message", message: "hi" };
+
+    expect(await handler({ body })).toEqual(body);
+  });
+
+  test("adds the message to a stored message compressed with its encoding", async () => {
+    const compressedMessage = deflateSync(
+      Buffer.from(JSON.stringify(message)),
+    ).toString("base64");
+
+    const body = await handler({
+      body: { messageId: "message", compressedMessage, encoding: "deflate" },
+    });
+
+    expect(body).toEqual({
+      messageId: "message",
+      compressedMessage,
+      encoding: "deflate",
+      message,
+    });
+  });
+});
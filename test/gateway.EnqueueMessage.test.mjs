@@ -0,0 +1,192 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  CloudWatchClient,
+  PutMetricDataCommand,
+} from "@aws-sdk/client-cloudwatch";
+import { DynamoDBClient, QueryCommand } from "@aws-sdk/client-dynamodb";
+import {
+  SQSClient,
+  SendMessageCommand,
+  SendMessageBatchCommand,
+} from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  MESSAGES_QUEUE_URL: "https://sqs/messages.fifo",
+  HIGH_PRIORITY_QUEUE_URL: "https://sqs/high-priority.fifo",
+  MESSAGE_TTL_SECONDS: "3600",
+  MESSAGES_TABLE: "Messages",
+  MAX_BACKLOG_MESSAGES: "2",
+  MAX_BACKLOG_BYTES: "0",
+  BACKLOG_POLICY: "reject",
+  METRICS_NAMESPACE: "Gateway",
+  MAX_MESSAGE_SIZE: "16",
+});
+
+const { handler } = await import("../lib/gateway.EnqueueMessage.mjs");
+
+const cloudwatch = mockClient(CloudWatchClient);
+const dynamoDB = mockClient(DynamoDBClient);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Creates the API Gateway proxy event of a request.
+ *
+ * @param {string} resource the resource, /message or /messages.
+ * @param {any} payload the payload of the request.
+ * @param {any} headers the headers of the request.
+ * @returns {any} the event.
+ */
+function requestEvent(resource, payload, headers = {}) {
+  return {
+    resource,
+    headers,
+    body: JSON.stringify(payload),
+    requestContext: {
+      requestId: "request",
+      extendedRequestId: "extended",
+      requestTimeEpoch: 1700000000000,
+    },
+  };
+}
+
+/**
+ * Sets the stored messages of the users.
+ *
+ * @param {number} count the number of stored messages of each user.
+ */
+function setBacklog(count) {
+  dynamoDB.on(QueryCommand).resolves({
+    Items: Array.from({ length: count }, () => ({ messageSize: { N: "5" } })),
+  });
+}
+
+beforeEach(() => {
+  cloudwatch.reset();
+  dynamoDB.reset();
+  sqs.reset();
+  sqs.on(SendMessageCommand).resolves({});
+});
+
+describe("EnqueueMessage", () => {
+  test("rejects a message when the backlog of the user is full", async () => {
+    setBacklog(2);
+
+    const response = await handler(
+      requestEvent("/message", { userId: "user", message: "hello" }),
+    );
+
+    expect(response.statusCode).toBe(429);
+    expect(sqs.commandCalls(SendMessageCommand)).toHaveLength(0);
+    expect(
+      cloudwatch.commandCalls(PutMetricDataCommand)[0].args[0].input,
+    ).toMatchObject({
+      MetricData: [{ MetricName: "BacklogCapped", Value: 1 }],
+    });
+  });
+
+  test("enqueues a message when the backlog of the user is not full", async () => {
+    setBacklog(1);
+
+    const response = await handler(
+      requestEvent(
+        "/message",
+        { userId: "user", message: "hello" },
+        { "idempotency-key": "key" },
+      ),
+    );
+
+    expect(response).toEqual({
+      statusCode: 200,
+      body: JSON.stringify({ messageId: "request" }),
+    });
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    expect(input).toMatchObject({
+      QueueUrl: "https://sqs/messages.fifo",
+      MessageDeduplicationId: "key",
+      MessageGroupId: "user",
+    });
+    expect(JSON.parse(input.MessageBody)).toMatchObject({
+      userId: "user",
+      messageId: "request",
+      message: "hello",
+      idempotencyKey: "key",
+    });
+    expect(cloudwatch.commandCalls(PutMetricDataCommand)).toHaveLength(0);
+  });
+
+  test("counts the accepted messages of a batch in the backlog", async () => {
+    setBacklog(1);
+    sqs.on(SendMessageBatchCommand).resolves({ Successful: [{ Id: "0" }] });
+
+    const response = await handler(
+      requestEvent("/messages", {
+        messages: [
+          { userId: "user", message: "first" },
+          { userId: "user", message: "second" },
+        ],
+      }),
+    );
+
+    expect(JSON.parse(response.body)).toEqual({
+      successful: [{ index: 0, messageId: "request-0" }],
+      failed: [{ index: 1, code: "BacklogFull", senderFault: true }],
+    });
+    expect(dynamoDB.commandCalls(QueryCommand)).toHaveLength(1);
+    expect(
+      sqs.commandCalls(SendMessageBatchCommand)[0].args[0].input.Entries,
+    ).toEqual([
+      expect.objectContaining({
+        Id: "0",
+        MessageDeduplicationId: "extended-0",
+      }),
+    ]);
+  });
+
+  test("rejects a request with a message larger than the maximum size", async () => {
+    const response = await handler(
+      requestEvent("/messages", {
+        messages: [
+          { userId: "user", message: "hello" },
+          { userId: "user", message: { text: "a message too large" } },
+        ],
+      }),
+    );
+
+    expect(response.statusCode).toBe(413);
+    expect(dynamoDB.commandCalls(QueryCommand)).toHaveLength(0);
+    expect(sqs.commandCalls(SendMessageBatchCommand)).toHaveLength(0);
+  });
+
+  test("measures the size of a message in UTF-8 bytes", async () => {
+    const response = await handler(
+      requestEvent("/message", { userId: "user", message: "ééééééééé" }),
+    );
+
+    expect(response.statusCode).toBe(413);
+    expect(sqs.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+
+  test("enqueues a structured message with its content type", async () => {
+    setBacklog(0);
+    const message = { text: ["hi"] };
+
+    await handler(
+      requestEvent("/message", {
+        userId: "user",
+        message,
+        contentType: "application/json",
+      }),
+    );
+
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    expect(JSON.parse(input.MessageBody)).toMatchObject({
+      message,
+      contentType: "application/json",
+    });
+  });
+});
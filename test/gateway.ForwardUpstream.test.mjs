@@ -0,0 +1,126 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  EVENT_BUS_NAME: "bus",
+  EVENT_SOURCE: "async-messaging-gateway",
+  UPSTREAM_QUEUE_URL: "",
+  UPSTREAM_QUEUE_FIFO: "false",
+  UPSTREAM_MAX_SIZE: "32",
+});
+
+const eventBusForwarder = await import("../lib/gateway.ForwardUpstream.mjs");
+
+// The settings are read when the module is loaded, so the queue target is another instance of the module.
+Object.assign(process.env, {
+  UPSTREAM_QUEUE_URL: "https://sqs/upstream.fifo",
+  UPSTREAM_QUEUE_FIFO: "true",
+});
+const queueForwarder = await import("../lib/gateway.ForwardUpstream.mjs?queue");
+
+const eventBridge = mockClient(EventBridgeClient);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Creates the websocket event of a frame sent by the client.
+ *
+ * @param {any} frame the frame sent by the client.
+ * @returns {any} the event.
+ */
+function frameEvent(frame) {
+  return {
+    body: JSON.stringify(frame),
+    requestContext: {
+      routeKey: "chat",
+      connectionId: "connection",
+      requestId: "request",
+      requestTimeEpoch: 1700000000000,
+      authorizer: { principalId: "user", username: "alice" },
+    },
+  };
+}
+
+// The client message of the frame `{"text": "hi"}`
+const clientMessage = {
+  action: "chat",
+  userId: "user",
+  username: "alice",
+  connectionId: "connection",
+  requestId: "request",
+  receivedAt: 1700000000000,
+  frame: { text: "hi" },
+};
+
+beforeEach(() => {
+  eventBridge.reset();
+  sqs.reset();
+  eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+  sqs.on(SendMessageCommand).resolves({});
+});
+
+describe("ForwardUpstream", () => {
+  test("forwards the frame to the event bus as a ClientMessage event", async () => {
+    const response = await eventBusForwarder.handler(
+      frameEvent({ text: "hi" }),
+    );
+
+    expect(response).toEqual({
+      statusCode: 200,
+      body: JSON.stringify({ requestId: "request" }),
+    });
+    const [entry] =
+      eventBridge.commandCalls(PutEventsCommand)[0].args[0].input.Entries;
+    expect(entry).toMatchObject({
+      EventBusName: "bus",
+      Source: "async-messaging-gateway",
+      DetailType: "ClientMessage",
+    });
+    expect(JSON.parse(entry.Detail)).toEqual(clientMessage);
+    expect(sqs.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+
+  test("fails when the event can't be sent", async () => {
+    eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 1 });
+
+    await expect(
+      eventBusForwarder.handler(frameEvent({ text: "hi" })),
+    ).rejects.toThrow("Failed to send the client message event");
+  });
+
+  test("forwards the frames of a user in order to the FIFO upstream queue", async () => {
+    await queueForwarder.handler(frameEvent({ text: "hi" }));
+
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    expect(input).toMatchObject({
+      QueueUrl: "https://sqs/upstream.fifo",
+      MessageGroupId: "user",
+      MessageDeduplicationId: "request",
+    });
+    expect(JSON.parse(input.MessageBody)).toEqual(clientMessage);
+    expect(eventBridge.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  test("rejects a frame larger than the maximum size", async () => {
+    const response = await eventBusForwarder.handler(
+      frameEvent({ text: "a frame larger than the maximum size" }),
+    );
+
+    expect(response).toEqual({
+      statusCode: 413,
+      body: JSON.stringify({
+        requestId: "request",
+        message: "The frame is too large",
+      }),
+    });
+    expect(eventBridge.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+});
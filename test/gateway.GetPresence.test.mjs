@@ -0,0 +1,94 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  BatchGetItemCommand,
+  QueryCommand,
+} from "@aws-sdk/client-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  CONNECTIONS_TABLE: "Connections",
+  PRESENCE_TABLE: "Presence",
+});
+
+const { handler } = await import("../lib/gateway.GetPresence.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+
+// The time of the requests
+const now = 1700000000000;
+
+beforeEach(() => {
+  dynamoDB.reset();
+  dynamoDB
+    .on(QueryCommand)
+    .resolves({ Count: 0 })
+    .on(QueryCommand, {
+      ExpressionAttributeValues: { ":userId": { S: "alice" } },
+    })
+    .resolves({ Count: 2 });
+  dynamoDB.on(BatchGetItemCommand).resolves({
+    Responses: {
+      Presence: [{ userId: { S: "bob" }, lastSeenAt: { N: "1690000000000" } }],
+    },
+  });
+});
+
+describe("GetPresence", () => {
+  test("gets the presence of a connected user", async () => {
+    const response = await handler({
+      resource: "/presence/{userId}",
+      pathParameters: { userId: "alice" },
+      requestContext: { requestTimeEpoch: now },
+    });
+
+    expect(JSON.parse(response.body)).toEqual({
+      userId: "alice",
+      online: true,
+      connections: 2,
+      lastSeenAt: now,
+    });
+  });
+
+  test("gets the presence of the users in the order of the request", async () => {
+    dynamoDB
+      .on(BatchGetItemCommand)
+      .resolvesOnce({
+        Responses: { Presence: [] },
+        UnprocessedKeys: {
+          Presence: { Keys: [{ userId: { S: "bob" } }] },
+        },
+      })
+      .resolves({
+        Responses: {
+          Presence: [
+            { userId: { S: "bob" }, lastSeenAt: { N: "1690000000000" } },
+          ],
+        },
+      });
+
+    const response = await handler({
+      resource: "/presence",
+      body: JSON.stringify({ userIds: ["carol", "bob", "alice"] }),
+      requestContext: { requestTimeEpoch: now },
+    });
+
+    expect(JSON.parse(response.body)).toEqual({
+      users: [
+        { userId: "carol", online: false, connections: 0, lastSeenAt: null },
+        {
+          userId: "bob",
+          online: false,
+          connections: 0,
+          lastSeenAt: 1690000000000,
+        },
+        { userId: "alice", online: true, connections: 2, lastSeenAt: now },
+      ],
+    });
+    expect(dynamoDB.commandCalls(BatchGetItemCommand)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,235 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  BatchWriteItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+  ConditionalCheckFailedException,
+} from "@aws-sdk/client-dynamodb";
+import { S3Client, DeleteObjectsCommand } from "@aws-sdk/client-s3";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  MESSAGES_TABLE: "Messages",
+  MESSAGE_STATUS_TABLE: "MessageStatus",
+  STATUS_TTL_SECONDS: "86400",
+  PAYLOADS_BUCKET: "payloads",
+  PRESIGNED_URL_TTL_SECONDS: "900",
+  MAX_PAGE_SIZE: "100",
+  MAX_WAIT_SECONDS: "20",
+  ALLOWED_ORIGINS: "https://example.com,https://example.org",
+});
+
+const { handler } = await import("../lib/gateway.InboxMessages.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const s3 = mockClient(S3Client);
+
+/**
+ * Creates a stored message record of the user.
+ *
+ * @param {number} sequence the sequence number of the message.
+ * @returns {any} the message record.
+ */
+function messageItem(sequence) {
+  return {
+    userId: { S: "user" },
+    messageKey: { S: `key-${sequence}` },
+    messageId: { S: `message-${sequence}` },
+    sequence: { N: `${sequence}` },
+    timestamp: { N: "1700000000000" },
+    expiresAt: { N: "4102444800" },
+    message: { S: `hello ${sequence}` },
+  };
+}
+
+/**
+ * Creates the API Gateway proxy event of GET /inbox.
+ *
+ * @param {any} queryStringParameters the query string parameters.
+ * @param {any} headers the headers of the request.
+ * @returns {any} the event.
+ */
+function inboxEvent(queryStringParameters, headers = {}) {
+  return {
+    resource: "/inbox",
+    headers,
+    queryStringParameters,
+    requestContext: { authorizer: { claims: { sub: "user" } } },
+  };
+}
+
+/**
+ * Creates the API Gateway proxy event of POST /inbox/ack.
+ *
+ * @param {string} body the request body.
+ * @returns {any} the event.
+ */
+function ackEvent(body) {
+  return {
+    resource: "/inbox/ack",
+    headers: { "content-type": "text/plain" },
+    body,
+    requestContext: { authorizer: { claims: { sub: "user" } } },
+  };
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  s3.reset();
+  dynamoDB.on(UpdateItemCommand).resolves({});
+});
+
+describe("InboxMessages", () => {
+  test("responds with a page of messages and the cursor of the next page", async () => {
+    dynamoDB.on(QueryCommand).resolves({
+      Items: [messageItem(1), messageItem(2)],
+      LastEvaluatedKey: { userId: { S: "user" }, messageKey: { S: "key-2" } },
+    });
+
+    const response = await handler(inboxEvent({ limit: "2" }));
+
+    expect(response.statusCode).toBe(200);
+    const { messages, cursor } = JSON.parse(response.body);
+    expect(messages.map(({ messageId }) => messageId)).toEqual([
+      "message-1",
+      "message-2",
+    ]);
+    expect(messages[0]).toMatchObject({ sequence: 1, payload: "hello 1" });
+    expect(cursor).toBe("key-2");
+    expect(dynamoDB.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+      Limit: 2,
+      ExclusiveStartKey: undefined,
+      ScanIndexForward: true,
+    });
+  });
+
+  test("starts the page after the cursor", async () => {
+    dynamoDB.on(QueryCommand).resolves({ Items: [messageItem(3)] });
+
+    const response = await handler(inboxEvent({ cursor: "key-2" }));
+
+    const { messages, cursor } = JSON.parse(response.body);
+    expect(messages).toHaveLength(1);
+    expect(cursor).toBeUndefined();
+    expect(dynamoDB.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+      Limit: 10,
+      ExclusiveStartKey: {
+        userId: { S: "user" },
+        messageKey: { S: "key-2" },
+      },
+    });
+  });
+
+  test("fills the page when the expired messages are filtered out", async () => {
+    dynamoDB
+      .on(QueryCommand)
+      .resolvesOnce({
+        Items: [messageItem(1)],
+        LastEvaluatedKey: { userId: { S: "user" }, messageKey: { S: "key-2" } },
+      })
+      .resolvesOnce({ Items: [messageItem(3)] });
+
+    const response = await handler(inboxEvent({ limit: "2" }));
+
+    expect(JSON.parse(response.body).messages).toHaveLength(2);
+    const queries = dynamoDB.commandCalls(QueryCommand);
+    expect(queries).toHaveLength(2);
+    expect(queries[1].args[0].input).toMatchObject({
+      Limit: 1,
+      ExclusiveStartKey: { messageKey: { S: "key-2" } },
+    });
+  });
+
+  test("rejects an invalid limit", async () => {
+    const response = await handler(inboxEvent({ limit: "101" }));
+
+    expect(response.statusCode).toBe(400);
+    expect(dynamoDB.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+
+  test("records the messages as delivered only the first time", async () => {
+    dynamoDB.on(QueryCommand).resolves({ Items: [messageItem(1)] });
+    dynamoDB.on(UpdateItemCommand).rejects(
+      new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      }),
+    );
+
+    const response = await handler(inboxEvent({}));
+
+    expect(response.statusCode).toBe(200);
+    const { input } = dynamoDB.commandCalls(UpdateItemCommand)[0].args[0];
+    expect(input.ConditionExpression).toBe(
+      "attribute_not_exists(#status) OR #status <> :status",
+    );
+    expect(input.ExpressionAttributeValues[":status"]).toEqual({
+      S: "delivered",
+    });
+  });
+
+  test("allows the origin of the request when it is allowed", async () => {
+    dynamoDB.on(QueryCommand).resolves({ Items: [] });
+
+    const response = await handler(
+      inboxEvent({}, { origin: "https://example.org" }),
+    );
+
+    expect(response.headers).toEqual({
+      "Access-Control-Allow-Origin": "https://example.org",
+      Vary: "Origin",
+    });
+  });
+
+  test.each(["not JSON", "{}", '{"messageIds": "message-1"}'])(
+    "rejects the acknowledgement with the body %s",
+    async (body) => {
+      const response = await handler(ackEvent(body));
+
+      expect(response.statusCode).toBe(400);
+      expect(dynamoDB.commandCalls(QueryCommand)).toHaveLength(0);
+    },
+  );
+
+  test("removes the acknowledged messages and their payloads in batches", async () => {
+    const items = Array.from({ length: 30 }, (_, index) => ({
+      userId: { S: "user" },
+      messageKey: { S: `key-${index}` },
+      ...(index < 2 ? { payloadKey: { S: `payload-${index}` } } : {}),
+    }));
+    dynamoDB.on(QueryCommand).resolves({ Items: items });
+    dynamoDB
+      .on(BatchWriteItemCommand)
+      .resolvesOnce({
+        UnprocessedItems: {
+          Messages: [
+            { DeleteRequest: { Key: { messageKey: { S: "key-0" } } } },
+          ],
+        },
+      })
+      .resolves({});
+    s3.on(DeleteObjectsCommand).resolves({});
+
+    const response = await handler(
+      ackEvent(
+        JSON.stringify({
+          messageIds: items.map((_, index) => `message-${index}`),
+        }),
+      ),
+    );
+
+    expect(JSON.parse(response.body)).toEqual({ acknowledged: 30 });
+    const batches = dynamoDB
+      .commandCalls(BatchWriteItemCommand)
+      .map((call) => call.args[0].input.RequestItems.Messages.length);
+    expect(batches.sort((a, b) => a - b)).toEqual([1, 5, 25]);
+    expect(
+      s3.commandCalls(DeleteObjectsCommand)[0].args[0].input.Delete.Objects,
+    ).toEqual([{ Key: "payload-0" }, { Key: "payload-1" }]);
+  });
+});
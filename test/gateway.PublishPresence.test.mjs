@@ -0,0 +1,141 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  QueryCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  CONNECTIONS_TABLE: "Connections",
+  PRESENCE_TABLE: "Presence",
+  EVENT_BUS_NAME: "bus",
+  EVENT_SOURCE: "async-messaging-gateway",
+});
+
+const { handler } = await import("../lib/gateway.PublishPresence.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const eventBridge = mockClient(EventBridgeClient);
+
+/**
+ * Creates the stream event of a change of a connection of the user.
+ *
+ * @param {string} eventName the change, INSERT or REMOVE.
+ * @param {any} userIdentity the identity that made the change, the DynamoDB service for the TTL.
+ * @returns {any} the event.
+ */
+function streamEvent(eventName, userIdentity) {
+  return {
+    Records: [
+      {
+        eventName,
+        userIdentity,
+        dynamodb: {
+          Keys: { userId: { S: "user" }, connectionId: { S: "connection" } },
+          ApproximateCreationDateTime: 1700000000,
+          SequenceNumber: "1",
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Gets the presence event sent to the event bus.
+ *
+ * @returns {any} the detail type and the detail of the event.
+ */
+function sentEvent() {
+  const [entry] =
+    eventBridge.commandCalls(PutEventsCommand)[0].args[0].input.Entries;
+  return { detailType: entry.DetailType, detail: JSON.parse(entry.Detail) };
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  eventBridge.reset();
+  dynamoDB.on(UpdateItemCommand).resolves({});
+  dynamoDB.on(QueryCommand).resolves({ Count: 1 });
+  eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+});
+
+describe("PublishPresence", () => {
+  test("records the last seen time and sends the UserConnected event", async () => {
+    const response = await handler(streamEvent("INSERT"));
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(
+      dynamoDB.commandCalls(UpdateItemCommand)[0].args[0].input,
+    ).toMatchObject({
+      TableName: "Presence",
+      Key: { userId: { S: "user" } },
+      ExpressionAttributeValues: { ":time": { N: "1700000000000" } },
+    });
+    expect(sentEvent()).toEqual({
+      detailType: "UserConnected",
+      detail: {
+        userId: "user",
+        connectionId: "connection",
+        connectedAt: 1700000000000,
+        connections: 1,
+      },
+    });
+  });
+
+  test.each([
+    ["a disconnection", undefined, false],
+    [
+      "a connection removed by the TTL",
+      { type: "Service", principalId: "dynamodb.amazonaws.com" },
+      true,
+    ],
+  ])(
+    "sends the UserDisconnected event of %s",
+    async (_, userIdentity, expired) => {
+      dynamoDB.on(QueryCommand).resolves({ Count: 0 });
+
+      await handler(streamEvent("REMOVE", userIdentity));
+
+      expect(sentEvent()).toEqual({
+        detailType: "UserDisconnected",
+        detail: {
+          userId: "user",
+          connectionId: "connection",
+          disconnectedAt: 1700000000000,
+          expired,
+          connections: 0,
+        },
+      });
+    },
+  );
+
+  test("keeps a later last seen time", async () => {
+    dynamoDB.on(UpdateItemCommand).rejects(
+      Object.assign(new Error("The conditional request failed"), {
+        name: "ConditionalCheckFailedException",
+      }),
+    );
+
+    const response = await handler(streamEvent("REMOVE"));
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(eventBridge.commandCalls(PutEventsCommand)).toHaveLength(1);
+  });
+
+  test("reports the record as failed when the event can't be sent", async () => {
+    eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 1 });
+
+    const response = await handler(streamEvent("INSERT"));
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: "1" }] });
+  });
+});
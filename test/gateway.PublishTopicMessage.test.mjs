@@ -0,0 +1,120 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { DynamoDBClient, QueryCommand } from "@aws-sdk/client-dynamodb";
+import { SQSClient, SendMessageBatchCommand } from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  SUBSCRIPTIONS_TABLE: "Subscriptions",
+  MESSAGES_QUEUE_URL: "https://sqs/messages.fifo",
+  HIGH_PRIORITY_QUEUE_URL: "https://sqs/high-priority.fifo",
+  ENCRYPTION_KEY_ARN: "",
+  MAX_MESSAGE_SIZE: "16",
+});
+
+const { handler } = await import("../lib/gateway.PublishTopicMessage.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Creates the event of a message published to the topic.
+ *
+ * @param {any} attributes the attributes to add or replace.
+ * @returns {any} the event.
+ */
+function publishEvent(attributes = {}) {
+  return {
+    topic: "news",
+    timestamp: 1700000000000,
+    messageId: "message",
+    message: "hello",
+    expiresAt: 4102444800,
+    ...attributes,
+  };
+}
+
+/**
+ * Gets the messages queued for the subscribers.
+ *
+ * @returns {any[]} the entries of the queued batches.
+ */
+function queuedEntries() {
+  return sqs
+    .commandCalls(SendMessageBatchCommand)
+    .flatMap(({ args: [{ input }] }) => input.Entries);
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  sqs.reset();
+  dynamoDB.on(QueryCommand).resolves({
+    Count: 2,
+    Items: [{ userId: { S: "alice" } }, { userId: { S: "bob" } }],
+  });
+  sqs.on(SendMessageBatchCommand).resolves({ Successful: [] });
+});
+
+describe("PublishTopicMessage", () => {
+  test("queues the message for each subscriber of the topic", async () => {
+    await handler(publishEvent());
+
+    const query = dynamoDB.commandCalls(QueryCommand)[0].args[0].input;
+    expect(query.ExpressionAttributeValues).toEqual({
+      ":topic": { S: "news" },
+    });
+    const { input } = sqs.commandCalls(SendMessageBatchCommand)[0].args[0];
+    expect(input.QueueUrl).toBe("https://sqs/messages.fifo");
+    const entries = queuedEntries();
+    expect(entries.map(({ MessageGroupId }) => MessageGroupId)).toEqual([
+      "alice",
+      "bob",
+    ]);
+    expect(JSON.parse(entries[0].MessageBody)).toEqual({
+      userId: "alice",
+      timestamp: 1700000000000,
+      messageId: "message",
+      topic: "news",
+      message: "hello",
+      expiresAt: 4102444800,
+    });
+  });
+
+  test("deduplicates the messages of a retried publication", async () => {
+    await handler(publishEvent());
+    await handler(publishEvent());
+
+    const ids = queuedEntries().map(
+      ({ MessageDeduplicationId }) => MessageDeduplicationId,
+    );
+    expect(ids[0]).toBe(ids[2]);
+    expect(ids[1]).toBe(ids[3]);
+    expect(ids[0]).not.toBe(ids[1]);
+  });
+
+  test("queues a high-priority message to its queue", async () => {
+    await handler(publishEvent({ priority: "high" }));
+
+    expect(
+      sqs.commandCalls(SendMessageBatchCommand)[0].args[0].input.QueueUrl,
+    ).toBe("https://sqs/high-priority.fifo");
+  });
+
+  test("rejects a message larger than the maximum size", async () => {
+    await expect(
+      handler(publishEvent({ message: "a message too large" })),
+    ).rejects.toThrow("The message is too large");
+    expect(sqs.commandCalls(SendMessageBatchCommand)).toHaveLength(0);
+  });
+
+  test("fails the publication when any message can't be queued", async () => {
+    sqs.on(SendMessageBatchCommand).resolves({ Failed: [{ Id: "1" }] });
+
+    await expect(handler(publishEvent())).rejects.toThrow(
+      "Failed to publish the message",
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  MESSAGES_TABLE: "Messages",
+  MESSAGES_QUEUE_URL: "https://sqs/messages.fifo",
+  HIGH_PRIORITY_QUEUE_URL: "https://sqs/high-priority.fifo",
+  MESSAGE_STATUS_TABLE: "MessageStatus",
+  STATUS_TTL_SECONDS: "86400",
+  MAX_REDELIVERIES: "3",
+});
+
+const { handler } = await import("../lib/gateway.RedeliverMessages.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Creates the redelivery queue event of a delivered message.
+ *
+ * @param {number} attempt the number of times the message was sent again.
+ * @returns {any} the event.
+ */
+function checkEvent(attempt = 0) {
+  return {
+    Records: [
+      {
+        messageId: "record",
+        body: JSON.stringify({
+          userId: "user",
+          timestamp: 1700000000000,
+          messageId: "message",
+          attempt,
+        }),
+      },
+    ],
+  };
+}
+
+/**
+ * Creates the stored record of the delivered message.
+ *
+ * @param {any} attributes the attributes to add or replace.
+ * @returns {any} the message record.
+ */
+function messageItem(attributes = {}) {
+  return {
+    userId: { S: "user" },
+    messageKey: { S: "1700000000000#message" },
+    messageId: { S: "message" },
+    sequence: { N: "7" },
+    message: { S: "hello" },
+    expiresAt: { N: "4102444800" },
+    ...attributes,
+  };
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  sqs.reset();
+});
+
+describe("RedeliverMessages", () => {
+  test("sends again the message that was not acknowledged", async () => {
+    dynamoDB.on(GetItemCommand).resolves({ Item: messageItem() });
+
+    const response = await handler(checkEvent());
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(dynamoDB.commandCalls(GetItemCommand)[0].args[0].input.Key).toEqual({
+      userId: { S: "user" },
+      messageKey: { S: "1700000000000#message" },
+    });
+    expect(
+      dynamoDB.commandCalls(UpdateItemCommand)[0].args[0].input
+        .ExpressionAttributeValues[":status"],
+    ).toEqual({ S: "queued" });
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    expect(input.QueueUrl).toBe("https://sqs/messages.fifo");
+    expect(input.MessageGroupId).toBe("user");
+    expect(JSON.parse(input.MessageBody)).toMatchObject({
+      userId: "user",
+      messageId: "message",
+      sequence: 7,
+      message: "hello",
+      attempt: 1,
+    });
+  });
+
+  test("sends again a high-priority message to its queue", async () => {
+    dynamoDB
+      .on(GetItemCommand)
+      .resolves({ Item: messageItem({ priority: { S: "high" } }) });
+
+    await handler(checkEvent());
+
+    expect(sqs.commandCalls(SendMessageCommand)[0].args[0].input.QueueUrl).toBe(
+      "https://sqs/high-priority.fifo",
+    );
+  });
+
+  test.each([
+    ["acknowledged", undefined, 0],
+    ["expired", messageItem({ expiresAt: { N: "1700000000" } }), 0],
+    ["sent too many times", messageItem(), 3],
+  ])("doesn't send again a message %s", async (_, item, attempt) => {
+    dynamoDB.on(GetItemCommand).resolves({ Item: item });
+
+    const response = await handler(checkEvent(attempt));
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(dynamoDB.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    expect(sqs.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+
+  test("reports the check as failed when the message can't be sent", async () => {
+    dynamoDB.on(GetItemCommand).resolves({ Item: messageItem() });
+    sqs.on(SendMessageCommand).rejects(new Error("Throttled"));
+
+    const response = await handler(checkEvent());
+
+    expect(response).toEqual({
+      batchItemFailures: [{ itemIdentifier: "record" }],
+    });
+  });
+
+  test("sends again a structured message as it was sent", async () => {
+    dynamoDB.on(GetItemCommand).resolves({
+      Item: messageItem({
+        message: { M: { text: { S: "hi" }, count: { N: "2" } } },
+        contentType: { S: "application/json" },
+      }),
+    });
+
+    await handler(checkEvent());
+
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    expect(JSON.parse(input.MessageBody)).toMatchObject({
+      message: { text: "hi", count: 2 },
+      contentType: "application/json",
+    });
+  });
+
+  test("sends again a compressed message as the base64 of the compressed payload", async () => {
+    dynamoDB.on(GetItemCommand).resolves({
+      Item: messageItem({
+        message: { B: Buffer.from("compressed") },
+        encoding: { S: "gzip" },
+      }),
+    });
+
+    await handler(checkEvent());
+
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    const body = JSON.parse(input.MessageBody);
+    expect(body).toMatchObject({
+      compressedMessage: Buffer.from("compressed").toString("base64"),
+      encoding: "gzip",
+    });
+    expect(body.message).toBeUndefined();
+  });
+
+  test("gets the message by the timestamp padded to 13 digits and the message ID", async () => {
+    await handler({
+      Records: [
+        {
+          messageId: "record",
+          body: JSON.stringify({
+            userId: "user",
+            timestamp: 999999999999,
+            messageId: "message",
+            attempt: 0,
+          }),
+        },
+      ],
+    });
+
+    expect(
+      dynamoDB.commandCalls(GetItemCommand)[0].args[0].input.Key.messageKey,
+    ).toEqual({ S: "0999999999999#message" });
+  });
+});
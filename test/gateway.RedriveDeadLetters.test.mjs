@@ -0,0 +1,146 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import {
+  SQSClient,
+  DeleteMessageCommand,
+  ReceiveMessageCommand,
+  SendMessageCommand,
+} from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  MESSAGES_TABLE: "Messages",
+  MESSAGES_QUEUE_URL: "https://sqs/messages.fifo",
+  HIGH_PRIORITY_QUEUE_URL: "https://sqs/high-priority.fifo",
+  MESSAGE_STATUS_TABLE: "MessageStatus",
+  STATUS_TTL_SECONDS: "86400",
+  DEAD_LETTER_QUEUE_URL: "https://sqs/dead-letters.fifo",
+  EVENT_BUS_NAME: "bus",
+  EVENT_SOURCE: "async-messaging-gateway",
+});
+
+const { handler } = await import("../lib/gateway.RedriveDeadLetters.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const eventBridge = mockClient(EventBridgeClient);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Sets the dead-lettered messages received from the queue.
+ *
+ * @param {any[]} bodies the bodies of the dead-lettered messages.
+ */
+function setDeadLetters(bodies) {
+  sqs
+    .on(ReceiveMessageCommand)
+    .resolvesOnce({
+      Messages: bodies.map((body, index) => ({
+        Body: JSON.stringify(body),
+        ReceiptHandle: `receipt-${index}`,
+      })),
+    })
+    .resolves({ Messages: [] });
+}
+
+/**
+ * Gets the statuses recorded for the messages.
+ *
+ * @returns {string[]} the statuses, in the order they were recorded.
+ */
+function recordedStatuses() {
+  return dynamoDB
+    .commandCalls(UpdateItemCommand)
+    .map((call) => call.args[0].input.ExpressionAttributeValues[":status"].S);
+}
+
+const message = {
+  userId: "user",
+  messageId: "message",
+  timestamp: 1700000000000,
+  message: "hello",
+  expiresAt: 4102444800,
+};
+
+beforeEach(() => {
+  dynamoDB.reset();
+  eventBridge.reset();
+  sqs.reset();
+  dynamoDB.on(PutItemCommand).resolves({});
+  dynamoDB.on(UpdateItemCommand).resolves({});
+  sqs.on(SendMessageCommand).resolves({});
+  sqs.on(DeleteMessageCommand).resolves({});
+  eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+});
+
+describe("RedriveDeadLetters", () => {
+  test("sends a message without a sequence number to its queue again with its attributes", async () => {
+    const body = {
+      ...message,
+      priority: "high",
+      deliverAt: "2100-01-01T00:00:00Z",
+      idempotencyKey: "key",
+      collapseKey: "progress",
+    };
+    setDeadLetters([body]);
+
+    const response = await handler({});
+
+    expect(response).toEqual({ redriven: 1, discarded: 0, failed: 0 });
+    const { input } = sqs.commandCalls(SendMessageCommand)[0].args[0];
+    expect(input).toMatchObject({
+      QueueUrl: "https://sqs/high-priority.fifo",
+      MessageGroupId: "user",
+    });
+    expect(JSON.parse(input.MessageBody)).toEqual(body);
+    expect(dynamoDB.commandCalls(PutItemCommand)).toHaveLength(0);
+    expect(recordedStatuses()).toEqual(["queued"]);
+    expect(sqs.commandCalls(DeleteMessageCommand)).toHaveLength(1);
+  });
+
+  test("stores a message with a sequence number at the messages table", async () => {
+    setDeadLetters([{ ...message, sequence: 7 }]);
+
+    const response = await handler({});
+
+    expect(response).toEqual({ redriven: 1, discarded: 0, failed: 0 });
+    expect(
+      dynamoDB.commandCalls(PutItemCommand)[0].args[0].input.Item,
+    ).toMatchObject({
+      messageKey: { S: "1700000000000#message" },
+      sequence: { N: "7" },
+      messageSize: { N: "5" },
+    });
+    expect(sqs.commandCalls(SendMessageCommand)).toHaveLength(0);
+    expect(recordedStatuses()).toEqual(["pending-offline"]);
+  });
+
+  test("discards an expired message with its status and event", async () => {
+    setDeadLetters([{ ...message, sequence: 7, expiresAt: 1700000000 }]);
+
+    const response = await handler({});
+
+    expect(response).toEqual({ redriven: 0, discarded: 1, failed: 0 });
+    const [entry] =
+      eventBridge.commandCalls(PutEventsCommand)[0].args[0].input.Entries;
+    expect(entry.DetailType).toBe("MessageExpired");
+    expect(JSON.parse(entry.Detail)).toMatchObject({
+      messageId: "message",
+      sequence: 7,
+    });
+    expect(recordedStatuses()).toEqual(["expired"]);
+    expect(dynamoDB.commandCalls(PutItemCommand)).toHaveLength(0);
+    expect(sqs.commandCalls(DeleteMessageCommand)).toHaveLength(1);
+  });
+});
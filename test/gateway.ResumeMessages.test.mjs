@@ -0,0 +1,162 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  QueryCommand,
+} from "@aws-sdk/client-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  HISTORY_TABLE: "History",
+  CONNECTIONS_TABLE: "Connections",
+  MAX_HISTORY_MESSAGES: "2",
+  WEBSOCKET_ENDPOINT: "https://websocket",
+});
+
+const { handler } = await import("../lib/gateway.ResumeMessages.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const websocket = mockClient(ApiGatewayManagementApiClient);
+
+/**
+ * Creates a message record of the history of the user.
+ *
+ * @param {number} sequence the sequence number of the message.
+ * @returns {any} the history record.
+ */
+function historyItem(sequence) {
+  return {
+    userId: { S: "user" },
+    messageId: { S: `message-${sequence}` },
+    sequence: { N: `${sequence}` },
+    timestamp: { N: "1700000000000" },
+    message: { S: `hello ${sequence}` },
+  };
+}
+
+/**
+ * Creates the websocket event of the resume route.
+ *
+ * @param {any} body the frame sent by the client.
+ * @returns {any} the event.
+ */
+function resumeEvent(body) {
+  return {
+    body: JSON.stringify(body),
+    requestContext: {
+      connectionId: "connection",
+      authorizer: { principalId: "user" },
+    },
+  };
+}
+
+/**
+ * Gets the sequence numbers of the messages sent to the connection.
+ *
+ * @returns {number[]} the sequence numbers, in the order they were sent.
+ */
+function sentSequences() {
+  return websocket
+    .commandCalls(PostToConnectionCommand)
+    .map((call) => JSON.parse(call.args[0].input.Data).sequence);
+}
+
+/**
+ * Gets the queries of the history, without the ones to find a message ID.
+ *
+ * @returns {any[]} the query inputs.
+ */
+function historyQueries() {
+  return dynamoDB
+    .commandCalls(QueryCommand)
+    .map((call) => call.args[0].input)
+    .filter((input) => input.FilterExpression === "#ttl > :now");
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  websocket.reset();
+  dynamoDB.on(GetItemCommand).resolves({ Item: {} });
+  websocket.on(PostToConnectionCommand).resolves({});
+});
+
+describe("ResumeMessages", () => {
+  test("sends the most recent messages in order and reports the older ones as truncated", async () => {
+    dynamoDB.on(QueryCommand).resolves({
+      Items: [historyItem(5), historyItem(4), historyItem(3)],
+      LastEvaluatedKey: { userId: { S: "user" }, sequence: { N: "3" } },
+    });
+
+    const response = await handler(resumeEvent({ action: "resume" }));
+
+    expect(JSON.parse(response.body)).toEqual({ resumed: 2, truncated: true });
+    expect(sentSequences()).toEqual([4, 5]);
+    const queries = historyQueries();
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toMatchObject({ ScanIndexForward: false, Limit: 3 });
+  });
+
+  test("sends the messages after the last received sequence", async () => {
+    dynamoDB.on(QueryCommand).resolves({
+      Items: [historyItem(5), historyItem(4)],
+    });
+
+    const response = await handler(
+      resumeEvent({ action: "resume", sequence: 3 }),
+    );
+
+    expect(JSON.parse(response.body)).toEqual({ resumed: 2, truncated: false });
+    expect(sentSequences()).toEqual([4, 5]);
+    expect(historyQueries()[0]).toMatchObject({
+      KeyConditionExpression: "userId = :userId AND #sequence > :sequence",
+      ExpressionAttributeValues: { ":sequence": { N: "3" } },
+    });
+  });
+
+  test("sends the history after the last received message ID", async () => {
+    dynamoDB
+      .on(QueryCommand, { FilterExpression: "messageId = :messageId" })
+      .resolves({ Items: [{ sequence: { N: "4" } }] })
+      .on(QueryCommand, { FilterExpression: "#ttl > :now" })
+      .resolves({ Items: [historyItem(5)] });
+
+    const response = await handler(
+      resumeEvent({ action: "resume", messageId: "message-4" }),
+    );
+
+    expect(JSON.parse(response.body)).toEqual({ resumed: 1, truncated: false });
+    expect(sentSequences()).toEqual([5]);
+  });
+
+  test("reports a message ID not in the history anymore as truncated", async () => {
+    dynamoDB
+      .on(QueryCommand, { FilterExpression: "messageId = :messageId" })
+      .resolves({ Items: [] })
+      .on(QueryCommand, { FilterExpression: "#ttl > :now" })
+      .resolves({ Items: [historyItem(2), historyItem(1)] });
+
+    const response = await handler(
+      resumeEvent({ action: "resume", messageId: "removed" }),
+    );
+
+    expect(JSON.parse(response.body)).toEqual({ resumed: 2, truncated: true });
+    expect(sentSequences()).toEqual([1, 2]);
+  });
+
+  test("rejects an invalid resume request", async () => {
+    const response = await handler(
+      resumeEvent({ action: "resume", sequence: "last" }),
+    );
+
+    expect(response.statusCode).toBe(400);
+    expect(dynamoDB.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+});
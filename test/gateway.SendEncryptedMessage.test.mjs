@@ -0,0 +1,102 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { randomBytes } from "node:crypto";
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import {
+  KMSClient,
+  DecryptCommand,
+  GenerateDataKeyCommand,
+} from "@aws-sdk/client-kms";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  WEBSOCKET_ENDPOINT: "https://websocket",
+});
+
+const { encryptMessage } = await import("../lib/shared/crypto.mjs");
+const { handler } = await import("../lib/gateway.SendEncryptedMessage.mjs");
+
+const kms = mockClient(KMSClient);
+const websocket = mockClient(ApiGatewayManagementApiClient);
+
+// The data key of the messages, as the plaintext and as encrypted by the gateway key
+const dataKey = {
+  Plaintext: randomBytes(32),
+  CiphertextBlob: Buffer.from("encrypted data key"),
+};
+
+/**
+ * Sends the encrypted message to the connection.
+ *
+ * @param {any} encryptedMessage the encrypted message.
+ */
+async function sendEncrypted(encryptedMessage) {
+  await handler({
+    body: {
+      messageId: "message",
+      sequence: 1,
+      timestamp: 1700000000000,
+      encryptedMessage,
+    },
+    connectionId: "connection",
+  });
+}
+
+beforeEach(() => {
+  kms.reset();
+  websocket.reset();
+  kms.on(GenerateDataKeyCommand).resolves(dataKey);
+  kms
+    .on(DecryptCommand, { EncryptionContext: { messageId: "message" } })
+    .resolves({ Plaintext: dataKey.Plaintext });
+  websocket.on(PostToConnectionCommand).resolves({});
+});
+
+describe("SendEncryptedMessage", () => {
+  test("sends the decrypted message to the connection", async () => {
+    const message = { text: "héllo", count: 2 };
+    const encryptedMessage = await encryptMessage(message, "message", "key");
+
+    expect(encryptedMessage.key).toBe(
+      dataKey.CiphertextBlob.toString("base64"),
+    );
+    expect(encryptedMessage.data).not.toContain("llo");
+    expect(kms.commandCalls(GenerateDataKeyCommand)[0].args[0].input).toEqual({
+      KeyId: "key",
+      KeySpec: "AES_256",
+      EncryptionContext: { messageId: "message" },
+    });
+
+    await sendEncrypted(encryptedMessage);
+
+    expect(
+      kms.commandCalls(DecryptCommand)[0].args[0].input.CiphertextBlob,
+    ).toEqual(dataKey.CiphertextBlob);
+    const { input } = websocket.commandCalls(PostToConnectionCommand)[0]
+      .args[0];
+    expect(input.ConnectionId).toBe("connection");
+    expect(JSON.parse(input.Data)).toEqual({
+      messageId: "message",
+      sequence: 1,
+      timestamp: 1700000000000,
+      payload: message,
+    });
+  });
+
+  test("doesn't send a message that was tampered with", async () => {
+    const encryptedMessage = await encryptMessage("hello", "message", "key");
+    const data = Buffer.from(encryptedMessage.data, "base64");
+    data[0] ^= 1;
+
+    await expect(
+      sendEncrypted({ ...encryptedMessage, data: data.toString("base64") }),
+    ).rejects.toThrow();
+    expect(websocket.commandCalls(PostToConnectionCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,101 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  PAYLOADS_BUCKET: "payloads",
+  WEBSOCKET_ENDPOINT: "https://websocket",
+  CLAIM_CHECK_DELIVERY: "chunks",
+  PRESIGNED_URL_TTL_SECONDS: "900",
+});
+
+const { handler } = await import("../lib/gateway.SendLargeMessage.mjs");
+
+const s3 = mockClient(S3Client);
+const websocket = mockClient(ApiGatewayManagementApiClient);
+
+/**
+ * Gets the frames sent to the connection.
+ *
+ * @returns {string[]} the frames, in the order they were sent.
+ */
+function sentFrames() {
+  return websocket
+    .commandCalls(PostToConnectionCommand)
+    .map((call) => call.args[0].input.Data);
+}
+
+/**
+ * Sends a large message with the payload stored at the bucket.
+ *
+ * @param {string} payload the JSON of the message.
+ */
+async function sendPayload(payload) {
+  s3.on(GetObjectCommand).resolves({
+    Body: { transformToString: async () => payload },
+  });
+
+  await handler({
+    body: {
+      messageId: "message",
+      sequence: 1,
+      timestamp: 1700000000000,
+      payloadKey: "user/message",
+      payloadSize: Buffer.byteLength(payload),
+    },
+    connectionId: "connection",
+  });
+}
+
+beforeEach(() => {
+  s3.reset();
+  websocket.reset();
+  websocket.on(PostToConnectionCommand).resolves({});
+});
+
+describe("SendLargeMessage", () => {
+  test.each([
+    ["escaped", '"\\n'.repeat(40000)],
+    ["multi-byte", "日本😀".repeat(20000)],
+  ])(
+    "keeps the %s payload chunks under the frame limit and joins them back",
+    async (_, text) => {
+      const payload = JSON.stringify(text);
+
+      await sendPayload(payload);
+
+      const frames = sentFrames();
+      expect(frames.length).toBeGreaterThan(1);
+      for (const frame of frames) {
+        expect(Buffer.byteLength(frame)).toBeLessThan(33 * 1024);
+      }
+      const chunks = frames.map((frame) => JSON.parse(frame));
+      expect(chunks.map(({ chunk }) => chunk)).toEqual(
+        frames.map((_, index) => index),
+      );
+      expect(chunks.every(({ chunks }) => chunks === frames.length)).toBe(true);
+      expect(chunks.map(({ payload }) => payload).join("")).toBe(payload);
+    },
+  );
+
+  test("sends a small payload in one chunk", async () => {
+    await sendPayload('{"report": "done"}');
+
+    expect(sentFrames().map((frame) => JSON.parse(frame))).toEqual([
+      expect.objectContaining({
+        messageId: "message",
+        chunk: 0,
+        chunks: 1,
+        payload: '{"report": "done"}',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import {
+  DynamoDBClient,
+  DeleteItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { SQSClient, SendMessageBatchCommand } from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  MESSAGES_TABLE: "Messages",
+  MESSAGES_QUEUE_URL: "https://sqs/messages.fifo",
+  HIGH_PRIORITY_QUEUE_URL: "https://sqs/high-priority.fifo",
+  MESSAGE_STATUS_TABLE: "MessageStatus",
+  STATUS_TTL_SECONDS: "86400",
+  EVENT_BUS_NAME: "bus",
+  EVENT_SOURCE: "async-messaging-gateway",
+});
+
+const { handler } = await import("../lib/gateway.SendUnsentMessages.mjs");
+
+const dynamoDB = mockClient(DynamoDBClient);
+const eventBridge = mockClient(EventBridgeClient);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Creates a stored message record of the user.
+ *
+ * @param {number} sequence the sequence number of the message.
+ * @param {number} expiresAt the epoch in seconds when the message expires.
+ * @returns {any} the message record.
+ */
+function messageItem(sequence, expiresAt = 4102444800) {
+  return {
+    userId: { S: "user" },
+    messageKey: { S: `key-${sequence}` },
+    timestamp: { N: "1700000000000" },
+    messageId: { S: `message-${sequence}` },
+    sequence: { N: `${sequence}` },
+    message: { S: `hello ${sequence}` },
+    expiresAt: { N: `${expiresAt}` },
+  };
+}
+
+// The stream event of a new connection of the user
+const connectEvent = {
+  Records: [
+    {
+      dynamodb: {
+        Keys: { userId: { S: "user" }, connectionId: { S: "connection" } },
+        SequenceNumber: "1",
+      },
+    },
+  ],
+};
+
+/**
+ * Gets the statuses recorded for the messages.
+ *
+ * @returns {any} the statuses by message ID.
+ */
+function recordedStatuses() {
+  return Object.fromEntries(
+    dynamoDB
+      .commandCalls(UpdateItemCommand)
+      .map(({ args: [{ input }] }) => [
+        input.Key.messageId.S,
+        input.ExpressionAttributeValues[":status"].S,
+      ]),
+  );
+}
+
+/**
+ * Mocks the query of the unsent messages of the user, with no high-priority messages.
+ *
+ * @param {any[]} items the message records of the normal lane.
+ */
+function queryUnsent(items) {
+  dynamoDB
+    .on(QueryCommand)
+    .resolves({ Items: items })
+    .on(QueryCommand, { FilterExpression: "#priority = :high" })
+    .resolves({ Items: [] });
+}
+
+beforeEach(() => {
+  dynamoDB.reset();
+  eventBridge.reset();
+  sqs.reset();
+  dynamoDB.on(UpdateItemCommand).resolves({});
+  dynamoDB.on(DeleteItemCommand).resolves({});
+  eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+  sqs.on(SendMessageBatchCommand).resolves({ Successful: [{ Id: "0" }] });
+});
+
+describe("SendUnsentMessages", () => {
+  test("discards the expired messages with their status and event", async () => {
+    queryUnsent([messageItem(1, 1700000000), messageItem(2)]);
+
+    const response = await handler(connectEvent);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(recordedStatuses()).toEqual({
+      "message-1": "expired",
+      "message-2": "queued",
+    });
+    const [entry] =
+      eventBridge.commandCalls(PutEventsCommand)[0].args[0].input.Entries;
+    expect(entry.DetailType).toBe("MessageExpired");
+    expect(
+      dynamoDB.commandCalls(DeleteItemCommand)[0].args[0].input.Key,
+    ).toEqual({ userId: { S: "user" }, messageKey: { S: "key-1" } });
+    const entries = sqs.commandCalls(SendMessageBatchCommand)[0].args[0].input
+      .Entries;
+    expect(entries.map(({ MessageBody }) => JSON.parse(MessageBody))).toEqual([
+      expect.objectContaining({ messageId: "message-2", sequence: 2 }),
+    ]);
+  });
+
+  test("sends the unsent messages in order to the new connection with their sequence", async () => {
+    queryUnsent([messageItem(1), messageItem(2)]);
+    sqs
+      .on(SendMessageBatchCommand)
+      .resolves({ Successful: [{ Id: "0" }, { Id: "1" }] });
+
+    const response = await handler(connectEvent);
+
+    expect(response.batchItemFailures).toEqual([]);
+    const queries = dynamoDB.commandCalls(QueryCommand);
+    expect(
+      queries.map(({ args: [{ input }] }) => input.ScanIndexForward),
+    ).toEqual([true, true]);
+    const { input } = sqs.commandCalls(SendMessageBatchCommand)[0].args[0];
+    expect(input.QueueUrl).toBe("https://sqs/messages.fifo");
+    expect(
+      input.Entries.map(({ MessageBody }) => JSON.parse(MessageBody)),
+    ).toEqual([
+      {
+        userId: "user",
+        timestamp: 1700000000000,
+        messageId: "message-1",
+        sequence: 1,
+        message: "hello 1",
+        expiresAt: 4102444800,
+        connectionId: "connection",
+      },
+      expect.objectContaining({ messageId: "message-2", sequence: 2 }),
+    ]);
+  });
+
+  test("reports the connection as failed when the messages can't be queued", async () => {
+    queryUnsent([messageItem(1)]);
+    sqs.on(SendMessageBatchCommand).resolves({ Failed: [{ Id: "0" }] });
+
+    const response = await handler(connectEvent);
+
+    expect(response.batchItemFailures).toEqual([{ itemIdentifier: "1" }]);
+  });
+
+  test("keeps the expired messages when their events can't be sent", async () => {
+    queryUnsent([messageItem(1, 1700000000)]);
+    eventBridge.on(PutEventsCommand).resolves({ FailedEntryCount: 1 });
+
+    await expect(handler(connectEvent)).rejects.toThrow(
+      "Failed to send the expired message events",
+    );
+    expect(dynamoDB.commandCalls(UpdateItemCommand)).toHaveLength(0);
+    expect(dynamoDB.commandCalls(DeleteItemCommand)).toHaveLength(0);
+  });
+
+  test("sends the high-priority messages first to their queue", async () => {
+    queryUnsent([messageItem(2)]);
+    dynamoDB
+      .on(QueryCommand, { FilterExpression: "#priority = :high" })
+      .resolves({ Items: [{ ...messageItem(3), priority: { S: "high" } }] });
+
+    await handler(connectEvent);
+
+    const batches = sqs
+      .commandCalls(SendMessageBatchCommand)
+      .map(({ args: [{ input }] }) => [
+        input.QueueUrl,
+        input.Entries.map(({ MessageBody }) => JSON.parse(MessageBody)),
+      ]);
+    expect(batches).toEqual([
+      [
+        "https://sqs/high-priority.fifo",
+        [
+          expect.objectContaining({
+            messageId: "message-3",
+            priority: "high",
+          }),
+        ],
+      ],
+      [
+        "https://sqs/messages.fifo",
+        [expect.objectContaining({ messageId: "message-2" })],
+      ],
+    ]);
+  });
+});
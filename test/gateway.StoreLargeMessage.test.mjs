@@ -0,0 +1,90 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { mockClient } from "aws-sdk-client-mock";
+
+Object.assign(process.env, {
+  AWS_REGION: "us-east-1",
+  POWERTOOLS_LOG_LEVEL: "SILENT",
+  PAYLOADS_BUCKET: "payloads",
+  MESSAGES_QUEUE_URL: "https://sqs/messages.fifo",
+  HIGH_PRIORITY_QUEUE_URL: "https://sqs/high-priority.fifo",
+  MESSAGE_TTL_SECONDS: "3600",
+  CLAIM_CHECK_THRESHOLD: "16",
+});
+
+const { handler } = await import("../lib/gateway.StoreLargeMessage.mjs");
+
+const s3 = mockClient(S3Client);
+const sqs = mockClient(SQSClient);
+
+/**
+ * Creates the API Gateway proxy event of POST /large-message.
+ *
+ * @param {any} payload the payload of the request.
+ * @returns {any} the event.
+ */
+function requestEvent(payload) {
+  return {
+    headers: {},
+    body: JSON.stringify(payload),
+    requestContext: {
+      requestId: "request",
+      extendedRequestId: "extended",
+      requestTimeEpoch: 1700000000000,
+    },
+  };
+}
+
+/**
+ * Gets the body of the message sent to the queue.
+ *
+ * @returns {any} the queued message.
+ */
+function queuedMessage() {
+  return JSON.parse(
+    sqs.commandCalls(SendMessageCommand)[0].args[0].input.MessageBody,
+  );
+}
+
+beforeEach(() => {
+  s3.reset();
+  sqs.reset();
+  s3.on(PutObjectCommand).resolves({});
+  sqs.on(SendMessageCommand).resolves({});
+});
+
+describe("StoreLargeMessage", () => {
+  test("stores a payload larger than the threshold and queues its reference", async () => {
+    const message = { report: "a report larger than the threshold" };
+
+    const response = await handler(requestEvent({ userId: "user", message }));
+
+    expect(JSON.parse(response.body)).toEqual({ messageId: "request" });
+    const { input } = s3.commandCalls(PutObjectCommand)[0].args[0];
+    expect(input).toMatchObject({
+      Bucket: "payloads",
+      Key: "user/request",
+      Body: JSON.stringify(message),
+    });
+    const queued = queuedMessage();
+    expect(queued).toMatchObject({
+      userId: "user",
+      messageId: "request",
+      payloadKey: "user/request",
+      payloadSize: Buffer.byteLength(JSON.stringify(message)),
+      expiresAt: 1700003600,
+    });
+    expect(queued.message).toBeUndefined();
+  });
+
+  test("queues a payload up to the threshold as the message", async () => {
+    await handler(requestEvent({ userId: "user", message: "small" }));
+
+    expect(s3.commandCalls(PutObjectCommand)).toHaveLength(0);
+    expect(queuedMessage()).toMatchObject({ message: "small" });
+    expect(queuedMessage().payloadKey).toBeUndefined();
+  });
+});
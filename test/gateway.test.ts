@@ -0,0 +1,682 @@
+/*! Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved. */
+/*! SPDX-License-Identifier: MIT-0 */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import * as events from "aws-cdk-lib/aws-events";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import { Construct } from "constructs";
+
+import { Gateway, GatewayProps } from "../lib/gateway";
+
+// The feature flags of the app
+const { context } = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "..", "cdk.json"), "utf-8"),
+);
+
+const MAX_MESSAGE_SIZE = 1024;
+
+/**
+ * Creates a stack with the gateway, without bundling the Lambda functions.
+ *
+ * @param props the gateway properties besides the token authorizer, or the function to create them in the stack.
+ * @returns the stack and the gateway.
+ */
+function createGateway(
+  props:
+    Partial<GatewayProps> | ((stack: cdk.Stack) => Partial<GatewayProps>) = {},
+): {
+  stack: cdk.Stack;
+  gateway: Gateway;
+} {
+  const app = new cdk.App({
+    context: {
+      ...context,
+      "max-message-size": MAX_MESSAGE_SIZE,
+      "aws:cdk:bundling-stacks": [],
+    },
+  });
+  const stack = new cdk.Stack(app, "TestStack");
+  const tokenAuthorizerFn = new lambda.Function(stack, "Authorizer", {
+    runtime: lambda.Runtime.NODEJS_22_X,
+    handler: "index.handler",
+    code: lambda.Code.fromInline("exports.handler = async () => ({});"),
+  });
+
+  const gateway = new Gateway(stack, "Gateway", {
+    tokenAuthorizerFn,
+    ...(typeof props === "function" ? props(stack) : props),
+  });
+  return { stack, gateway };
+}
+
+/**
+ * Gets the logical ID of the resource of a construct of the gateway.
+ *
+ * @param gateway the gateway.
+ * @param id the ID of the construct.
+ * @returns the logical ID.
+ */
+function logicalId(gateway: Gateway, id: string): string {
+  const construct = gateway.node.findChild(id) as Construct;
+  const resource = (construct.node.defaultChild ?? construct) as cdk.CfnElement;
+  return cdk.Stack.of(gateway).getLogicalId(resource);
+}
+
+/**
+ * Gets the actions granted to a role on a resource.
+ *
+ * @param template the stack template.
+ * @param roleId the logical ID of the role.
+ * @param resourceId the logical ID of the resource.
+ * @returns the granted actions.
+ */
+function grantedActions(
+  template: Template,
+  roleId: string,
+  resourceId: string,
+): string[] {
+  const policies = template.findResources("AWS::IAM::Policy", {
+    Properties: { Roles: [{ Ref: roleId }] },
+  });
+
+  return Object.values(policies).flatMap((policy) =>
+    policy.Properties.PolicyDocument.Statement.filter((statement: any) =>
+      JSON.stringify(statement.Resource).includes(`"${resourceId}"`),
+    ).flatMap((statement: any) => [statement.Action].flat()),
+  );
+}
+
+/**
+ * Gets the environment variables of a Lambda function of the gateway.
+ *
+ * @param template the stack template.
+ * @param gateway the gateway.
+ * @param id the ID of the Lambda function.
+ * @returns the environment variables.
+ */
+function environment(
+  template: Template,
+  gateway: Gateway,
+  id: string,
+): Record<string, any> {
+  const functionId = logicalId(gateway, id);
+  return template.toJSON().Resources[functionId].Properties.Environment
+    .Variables;
+}
+
+describe("Gateway", () => {
+  test("passes the backlog settings to the Step Functions", () => {
+    const { stack } = createGateway({
+      maxBacklogMessages: 50,
+      backlogPolicy: "drop-newest",
+    });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+      DefinitionSubstitutions: Match.objectLike({
+        MaxBacklogMessages: "50",
+        BacklogPolicy: "drop-newest",
+      }),
+    });
+  });
+
+  test("enqueues the messages through a Lambda function when the backlog is rejected", () => {
+    const { stack, gateway } = createGateway({
+      maxBacklogMessages: 10,
+      backlogPolicy: "reject",
+    });
+    const template = Template.fromStack(stack);
+
+    expect(environment(template, gateway, "EnqueueMessage")).toMatchObject({
+      MAX_BACKLOG_MESSAGES: "10",
+      BACKLOG_POLICY: "reject",
+      MAX_MESSAGE_SIZE: `${MAX_MESSAGE_SIZE}`,
+    });
+  });
+
+  test("broadcasts asynchronously at the broadcast rate", () => {
+    const { stack, gateway } = createGateway({ broadcastRate: 25 });
+    const template = Template.fromStack(stack);
+
+    expect(environment(template, gateway, "Broadcast")).toMatchObject({
+      BROADCAST_RATE: "25",
+      MAX_MESSAGE_SIZE: `${MAX_MESSAGE_SIZE}`,
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      HttpMethod: "POST",
+      Integration: Match.objectLike({
+        Type: "AWS",
+        RequestParameters: {
+          "integration.request.header.X-Amz-Invocation-Type": "'Event'",
+        },
+      }),
+    });
+    template.hasResourceProperties("AWS::Lambda::EventInvokeConfig", {
+      MaximumRetryAttempts: 0,
+    });
+  });
+
+  test("keeps the recent messages of the users in the history", () => {
+    const { stack, gateway } = createGateway({ maxHistoryMessages: 5 });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      KeySchema: [
+        { AttributeName: "userId", KeyType: "HASH" },
+        { AttributeName: "sequence", KeyType: "RANGE" },
+      ],
+      TimeToLiveSpecification: { AttributeName: "ttl", Enabled: true },
+    });
+    template.hasResourceProperties("AWS::ApiGatewayV2::Route", {
+      RouteKey: "resume",
+    });
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+      DefinitionSubstitutions: Match.objectLike({ MaxHistoryMessages: "5" }),
+    });
+    expect(
+      grantedActions(
+        template,
+        logicalId(gateway, "SendMessageSfnRole"),
+        logicalId(gateway, "History"),
+      ),
+    ).toEqual(
+      expect.arrayContaining(["dynamodb:PutItem", "dynamodb:DeleteItem"]),
+    );
+    expect(environment(template, gateway, "ResumeMessages")).toMatchObject({
+      MAX_HISTORY_MESSAGES: "5",
+    });
+  });
+
+  test("adds the inbox API with the CORS preflight not authorized", () => {
+    const { stack, gateway } = createGateway((scope) => ({
+      userPool: new cognito.UserPool(scope, "UserPool"),
+      inboxAllowedOrigins: ["https://example.com"],
+    }));
+    const template = Template.fromStack(stack);
+
+    expect(environment(template, gateway, "InboxMessages")).toMatchObject({
+      ALLOWED_ORIGINS: "https://example.com",
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      RestApiId: { Ref: logicalId(gateway, "Inbox") },
+      HttpMethod: "GET",
+      AuthorizationType: "COGNITO_USER_POOLS",
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      RestApiId: { Ref: logicalId(gateway, "Inbox") },
+      HttpMethod: "OPTIONS",
+      AuthorizationType: "NONE",
+      Integration: Match.objectLike({
+        IntegrationResponses: [
+          Match.objectLike({
+            ResponseParameters: Match.objectLike({
+              "method.response.header.Access-Control-Allow-Origin":
+                "'https://example.com'",
+            }),
+          }),
+        ],
+      }),
+    });
+  });
+
+  test("records the idempotency keys of the messages", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      KeySchema: [
+        { AttributeName: "userId", KeyType: "HASH" },
+        { AttributeName: "idempotencyKey", KeyType: "RANGE" },
+      ],
+    });
+    expect(
+      grantedActions(
+        template,
+        logicalId(gateway, "SendMessageSfnRole"),
+        logicalId(gateway, "IdempotencyKeys"),
+      ),
+    ).toEqual(expect.arrayContaining(["dynamodb:GetItem", "dynamodb:PutItem"]));
+  });
+
+  test("deduplicates the messages by the idempotency key", () => {
+    const { stack } = createGateway();
+    const template = Template.fromStack(stack);
+
+    const request = JSON.stringify(
+      template.findResources("AWS::ApiGateway::Method", {
+        Properties: { HttpMethod: "POST" },
+      }),
+    );
+    expect(request).toContain(
+      "#set($deduplicationId = $body.idempotencyKey)#else#set($deduplicationId = $context.extendedRequestId)",
+    );
+  });
+
+  test("sends the unsent messages only when a connection is made", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::Lambda::EventSourceMapping", {
+      FunctionName: { Ref: logicalId(gateway, "SendUnsentMessages") },
+      FilterCriteria: {
+        Filters: [{ Pattern: JSON.stringify({ eventName: ["INSERT"] }) }],
+      },
+    });
+  });
+
+  test("checks the acknowledgements after the ack timeout", () => {
+    const { stack } = createGateway({ ackTimeout: cdk.Duration.minutes(2) });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::SQS::Queue", { DelaySeconds: 120 });
+    expect(() =>
+      createGateway({ ackTimeout: cdk.Duration.minutes(16) }),
+    ).toThrow("The ack timeout can't be longer than 15 minutes");
+  });
+
+  test("removes the connection on disconnect without a condition", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+
+    // The request template is joined with the table name
+    const request = JSON.stringify(
+      template.toJSON().Resources[logicalId(gateway, "DisconnectIntegration")]
+        .Properties.RequestTemplates.$default,
+    );
+    expect(request).toContain("$context.connectionId");
+    expect(request).not.toContain("ConditionExpression");
+  });
+
+  test("numbers the messages of each user in the Sequences table", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+    const sequencesId = logicalId(gateway, "Sequences");
+
+    template.hasResource("AWS::DynamoDB::Table", {
+      Properties: Match.objectLike({
+        KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+      }),
+    });
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+      DefinitionSubstitutions: Match.objectLike({
+        SequencesTable: { Ref: sequencesId },
+      }),
+    });
+    expect(
+      grantedActions(
+        template,
+        logicalId(gateway, "SendMessageSfnRole"),
+        sequencesId,
+      ),
+    ).toEqual(expect.arrayContaining(["dynamodb:UpdateItem"]));
+  });
+
+  test("subscribes the users to the topics and publishes to the subscribers", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+
+    for (const routeKey of ["subscribe", "unsubscribe"]) {
+      template.hasResourceProperties("AWS::ApiGatewayV2::Route", {
+        RouteKey: routeKey,
+      });
+    }
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      KeySchema: [
+        { AttributeName: "topic", KeyType: "HASH" },
+        { AttributeName: "userId", KeyType: "RANGE" },
+      ],
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Resource", {
+      PathPart: "{topic}",
+    });
+    expect(environment(template, gateway, "PublishTopicMessage")).toMatchObject(
+      {
+        SUBSCRIPTIONS_TABLE: { Ref: logicalId(gateway, "Subscriptions") },
+      },
+    );
+  });
+
+  test("sends a batch of messages in one request", () => {
+    const { stack } = createGateway();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::ApiGateway::Resource", {
+      PathPart: "messages",
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Model", {
+      Schema: Match.objectLike({
+        required: ["messages"],
+        properties: Match.objectLike({
+          messages: Match.objectLike({ minItems: 1, maxItems: 10 }),
+        }),
+      }),
+    });
+    const methods = JSON.stringify(
+      template.findResources("AWS::ApiGateway::Method", {
+        Properties: { HttpMethod: "POST" },
+      }),
+    );
+    expect(methods).toContain("Action=SendMessageBatch");
+    expect(methods).toContain(
+      '\\"successful\\": [#foreach($entry in $result.Successful)',
+    );
+  });
+
+  test("answers the delivery status of the messages from the MessageStatus table", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+    const statusId = logicalId(gateway, "MessageStatus");
+
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      KeySchema: [
+        { AttributeName: "messageId", KeyType: "HASH" },
+        { AttributeName: "userId", KeyType: "RANGE" },
+      ],
+      TimeToLiveSpecification: { AttributeName: "ttl", Enabled: true },
+    });
+    template.hasResourceProperties("AWS::ApiGateway::Method", {
+      HttpMethod: "GET",
+      AuthorizationType: "AWS_IAM",
+      Integration: Match.objectLike({
+        Uri: Match.objectLike({
+          "Fn::Join": Match.arrayWith([
+            Match.arrayWith([":dynamodb:action/Query"]),
+          ]),
+        }),
+      }),
+    });
+    expect(
+      grantedActions(
+        template,
+        logicalId(gateway, "MessageStatusIntegrationRole"),
+        statusId,
+      ),
+    ).toContain("dynamodb:Query");
+    expect(
+      grantedActions(
+        template,
+        logicalId(gateway, "SendMessageSfnRole"),
+        statusId,
+      ),
+    ).toContain("dynamodb:UpdateItem");
+  });
+
+  test("sends the delivery status events to the given EventBridge bus", () => {
+    const { stack, gateway } = createGateway((scope) => ({
+      eventBus: new events.EventBus(scope, "Bus"),
+    }));
+    const template = Template.fromStack(stack);
+    const busId = stack.getLogicalId(
+      stack.node.findChild("Bus").node.defaultChild as cdk.CfnElement,
+    );
+
+    template.resourceCountIs("AWS::Events::EventBus", 1);
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+      DefinitionSubstitutions: Match.objectLike({
+        EventBusArn: { "Fn::GetAtt": [busId, "Arn"] },
+        EventSource: "async-messaging-gateway",
+      }),
+    });
+    expect(environment(template, gateway, "SendUnsentMessages")).toMatchObject({
+      EVENT_BUS_NAME: { Ref: busId },
+      EVENT_SOURCE: "async-messaging-gateway",
+    });
+  });
+
+  test("accepts the structured messages with a content type", () => {
+    const { stack } = createGateway();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::ApiGateway::Model", {
+      Schema: Match.objectLike({
+        properties: Match.objectLike({
+          message: Match.objectLike({ type: ["string", "object", "array"] }),
+          contentType: { type: "string" },
+        }),
+      }),
+    });
+  });
+
+  test("compresses the stored messages with the compression", () => {
+    const { stack, gateway } = createGateway({ compression: "deflate" });
+    const template = Template.fromStack(stack);
+
+    expect(environment(template, gateway, "CompressMessage")).toMatchObject({
+      COMPRESSION: "deflate",
+    });
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+      DefinitionSubstitutions: Match.objectLike({ Compression: "deflate" }),
+    });
+  });
+
+  test("encrypts the messages with the encryption key before they are queued", () => {
+    const { stack, gateway } = createGateway((scope) => ({
+      encryptionKey: new kms.Key(scope, "Key"),
+      encryptMessages: true,
+    }));
+    const template = Template.fromStack(stack);
+    const keyArn = {
+      "Fn::GetAtt": [
+        stack.getLogicalId(
+          stack.node.findChild("Key").node.defaultChild as cdk.CfnElement,
+        ),
+        "Arn",
+      ],
+    };
+
+    expect(environment(template, gateway, "EnqueueMessage")).toMatchObject({
+      ENCRYPTION_KEY_ARN: keyArn,
+    });
+    expect(environment(template, gateway, "PublishTopicMessage")).toMatchObject(
+      { ENCRYPTION_KEY_ARN: keyArn },
+    );
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      SSESpecification: Match.objectLike({
+        KMSMasterKeyId: keyArn,
+        SSEEnabled: true,
+      }),
+    });
+  });
+
+  test("requires the encryption key to encrypt the messages", () => {
+    expect(() => createGateway({ encryptMessages: true })).toThrow(
+      "The encryptionKey is required to encrypt the messages",
+    );
+  });
+
+  test("schedules the messages to deliver later", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+    const schedulerRoleId = logicalId(gateway, "SchedulerRole");
+
+    template.resourceCountIs("AWS::Scheduler::ScheduleGroup", 1);
+    template.hasResourceProperties("AWS::StepFunctions::StateMachine", {
+      DefinitionSubstitutions: Match.objectLike({
+        ScheduleGroup: Match.stringLikeRegexp("Schedules"),
+        SchedulerRoleArn: { "Fn::GetAtt": [schedulerRoleId, "Arn"] },
+      }),
+    });
+    expect(
+      grantedActions(
+        template,
+        logicalId(gateway, "SendMessageSfnRole"),
+        schedulerRoleId,
+      ),
+    ).toContain("iam:PassRole");
+    expect(
+      grantedActions(
+        template,
+        schedulerRoleId,
+        logicalId(gateway, "MessagesQueue"),
+      ),
+    ).toContain("sqs:SendMessage");
+  });
+
+  test("validates the delivery time of the messages", () => {
+    const { stack } = createGateway();
+    const template = Template.fromStack(stack);
+
+    const [model] = Object.values(
+      template.findResources("AWS::ApiGateway::Model"),
+    ).filter(({ Properties }) => Properties.Schema.properties.deliverAt);
+    const deliverAt = new RegExp(
+      model.Properties.Schema.properties.deliverAt.pattern,
+    );
+    expect(deliverAt.test("2030-01-01T10:00:00Z")).toBe(true);
+    expect(deliverAt.test("2030-01-01T10:00:00.250+02:00")).toBe(true);
+    expect(deliverAt.test("2030-01-01T10:00:00")).toBe(false);
+    expect(deliverAt.test("2030-01-01")).toBe(false);
+  });
+
+  test("sends the high-priority messages through their own queue", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+    const highPriorityQueueId = logicalId(gateway, "HighPriorityMessagesQueue");
+
+    template.hasResourceProperties("AWS::SQS::Queue", {
+      FifoQueue: true,
+      RedrivePolicy: Match.objectLike({
+        deadLetterTargetArn: {
+          "Fn::GetAtt": [logicalId(gateway, "MessagesDeadLetterQueue"), "Arn"],
+        },
+      }),
+    });
+    template.hasResourceProperties("AWS::Pipes::Pipe", {
+      Source: { "Fn::GetAtt": [highPriorityQueueId, "Arn"] },
+      Target: { Ref: logicalId(gateway, "SendMessage") },
+    });
+    const methods = JSON.stringify(
+      template.findResources("AWS::ApiGateway::Method", {
+        Properties: { HttpMethod: "POST" },
+      }),
+    );
+    expect(methods).toContain(
+      "#if($body.priority == 'high')#set($queueUrl = '",
+    );
+    expect(environment(template, gateway, "SendUnsentMessages")).toMatchObject({
+      HIGH_PRIORITY_QUEUE_URL: { Ref: highPriorityQueueId },
+    });
+  });
+
+  test("stores the messages by their timestamp and message ID without overwriting others", () => {
+    const { stack } = createGateway();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      KeySchema: [
+        { AttributeName: "userId", KeyType: "HASH" },
+        { AttributeName: "messageKey", KeyType: "RANGE" },
+      ],
+      AttributeDefinitions: Match.arrayWith([
+        { AttributeName: "messageKey", AttributeType: "S" },
+      ]),
+    });
+    const definition = JSON.parse(
+      fs.readFileSync(
+        path.join(__dirname, "..", "assets", "SendMessage.asl"),
+        "utf-8",
+      ),
+    );
+    const [{ States: states }] =
+      definition.States.Map.ItemProcessor.States["Process message"].Branches;
+    expect(states["Prepare item"].Assign.item).toEqual(
+      expect.stringContaining(
+        "'messageKey': {'S': $pad($string($states.input.body.timestamp), -13, '0') & '#' & $states.input.body.messageId}",
+      ),
+    );
+    expect(states["Store message"].Arguments).toMatchObject({
+      Item: "{% $item %}",
+      ConditionExpression:
+        "attribute_not_exists(messageKey) OR messageId = :messageId",
+    });
+  });
+
+  test("creates the websocket routes of the gateway and the upstream actions", () => {
+    const { stack } = createGateway({ upstreamActions: { typing: undefined } });
+    const template = Template.fromStack(stack);
+
+    for (const routeKey of [
+      "$connect",
+      "$disconnect",
+      "$default",
+      "ack",
+      "subscribe",
+      "unsubscribe",
+      "resume",
+      "typing",
+    ]) {
+      template.hasResourceProperties("AWS::ApiGatewayV2::Route", {
+        RouteKey: routeKey,
+      });
+    }
+  });
+
+  test.each([
+    "$connect",
+    "$disconnect",
+    "$default",
+    "ack",
+    "subscribe",
+    "unsubscribe",
+    "resume",
+  ])("rejects the reserved upstream action %s", (action) => {
+    expect(() =>
+      createGateway({ upstreamActions: { [action]: undefined } }),
+    ).toThrow(/reserved|predefined route/);
+  });
+
+  test("grants the presence of the users", () => {
+    const { stack, gateway } = createGateway();
+    const fn = new lambda.Function(stack, "Presence", {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "index.handler",
+      code: lambda.Code.fromInline("exports.handler = async () => ({});"),
+    });
+    gateway.grantPresence(fn);
+    const template = Template.fromStack(stack);
+
+    const statements = JSON.stringify(
+      template.findResources("AWS::IAM::Policy", {
+        Properties: {
+          Roles: [
+            {
+              Ref: stack.getLogicalId(
+                fn.role!.node.defaultChild as cdk.CfnElement,
+              ),
+            },
+          ],
+        },
+      }),
+    );
+    expect(statements).toContain("/GET/presence/*");
+    expect(statements).toContain("/POST/presence");
+  });
+
+  test("records the presence of the users from the connections stream", () => {
+    const { stack, gateway } = createGateway();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::DynamoDB::Table", {
+      KeySchema: [{ AttributeName: "userId", KeyType: "HASH" }],
+      StreamSpecification: Match.absent(),
+    });
+    template.hasResourceProperties("AWS::Lambda::EventSourceMapping", {
+      FunctionName: { Ref: logicalId(gateway, "PublishPresence") },
+      FilterCriteria: {
+        Filters: [
+          {
+            Pattern: JSON.stringify({ eventName: ["INSERT", "REMOVE"] }),
+          },
+        ],
+      },
+    });
+    expect(environment(template, gateway, "PublishPresence")).toMatchObject({
+      PRESENCE_TABLE: { Ref: logicalId(gateway, "Presence") },
+    });
+  });
+});